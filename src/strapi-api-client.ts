@@ -1,13 +1,75 @@
+import {randomUUID} from 'crypto';
+import {DEFAULT_POPULATE_DEPTH, toPopulateQuery} from './strapi-populate';
+import type {StrapiContentTypeSnapshot} from './strapi-snapshot';
+import {fromV5Document, fromV5DocumentId, StrapiVersion, toV5DocumentId, toV5Fields, toV5LocaleQuery} from './strapi-v5';
+
 export interface StrapiApiClientOptions {
     url: string;
     token: string;
-    jwt: string;
+    /** admin JWT, obtained by logging in with the admin credentials when missing or expired */
+    jwt?: string;
+    adminEmail?: string;
+    adminPassword?: string;
+    /** maximum depth of nested components populated when loading documents */
+    populateDepth?: number;
+    /** maximum number of content types loaded in parallel */
+    concurrency?: number;
+    /** major version of the Strapi server, detected when missing */
+    version?: StrapiVersion;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Idempotent requests failing with these statuses, or with network errors, are retried.
+ */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 500;
+/** permissions changed in Strapi are noticed after this delay */
+const TOKEN_PERMISSIONS_TTL_MS = 60 * 1000;
+
+interface StrapiRequestOptions {
+    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    /** serialized as JSON, unless it is a FormData */
+    body?: unknown;
+    /** authenticates with the admin JWT instead of the API token */
+    admin?: boolean;
+}
+
+/**
+ * Error response of the Strapi API.
+ */
+export class StrapiApiError extends Error {
+    readonly status: number;
+    readonly path: string;
+    /** `error.details` of the Strapi response, e.g. the validation errors */
+    readonly details?: unknown;
+
+    constructor(message: string, status: number, path: string, details?: unknown) {
+        super(message);
+        this.name = 'StrapiApiError';
+        this.status = status;
+        this.path = path;
+        this.details = details;
+    }
+}
+
+/**
+ * The document has been modified in Strapi since it was loaded.
+ */
+export class StrapiConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StrapiConflictError';
+    }
 }
 
 interface ExampleData {
     models: StrapiContentType[];
     documents: StrapiDocument[];
-    assets: ExampleAsset[];
+    assets: StrapiAsset[];
 }
 
 export interface StrapiContentType {
@@ -20,7 +82,7 @@ export interface StrapiContentType {
         singularName: string;
     };
     isDisplayed: boolean;
-    kind: string;
+    kind: 'collectionType' | 'singleType';
     options: any;
     pluginOptions: any;
     uid: string;
@@ -39,6 +101,34 @@ export interface StrapiContentTypeSetting {
     uid: string;
 }
 
+export interface StrapiFieldMetadata {
+    edit: {
+        label: string;
+        description: string;
+        placeholder: string;
+        visible: boolean;
+        editable: boolean;
+        mainField?: string;
+    };
+    list: {
+        label: string;
+        searchable: boolean;
+        sortable: boolean;
+    };
+}
+
+/**
+ * Content-manager configuration of the edit view of a content type or a component
+ */
+export interface StrapiConfiguration extends StrapiContentTypeSetting {
+    metadatas: { [attributeName: string]: StrapiFieldMetadata };
+    layouts: {
+        edit: { name: string; size: number }[][];
+        editRelations?: string[];
+        list: string[];
+    };
+}
+
 export interface StrapiComponent {
     apiID: string;
     attributes: { [key: string]: AttributeModel };
@@ -54,47 +144,119 @@ export interface StrapiComponent {
 
 export type AttributeModel =
     | {
-    type: 'boolean' | 'integer' | 'float' | 'string' | 'datetime' | 'json' | 'media' | 'richtext' | 'text' | 'enumeration';
+    type: 'string' | 'text' | 'richtext' | 'blocks' | 'email' | 'password' | 'uid'
+        | 'integer' | 'biginteger' | 'float' | 'decimal'
+        | 'date' | 'time' | 'datetime' | 'timestamp'
+        | 'boolean' | 'json';
     required?: boolean;
     repeatable?: boolean;
     default: any;
+    unique?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    min?: number | string;
+    max?: number | string;
+    regex?: string;
     customField?: string;
+    /** for uid attributes, the attribute the uid is generated from */
+    targetField?: string;
     options?: {
         draftAndPublish: boolean
     };
-    allowedTypes?: string[];
+}
+    | {
+    type: 'enumeration';
+    required?: boolean;
+    default: any;
+    unique?: boolean;
+    enum: string[];
+}
+    | {
+    type: 'media';
+    required?: boolean;
+    multiple?: boolean;
+    allowedTypes?: ('images' | 'files' | 'videos' | 'audios')[];
 }
     | {
     type: 'component';
     required?: boolean;
     repeatable?: boolean;
     component?: string;
+    min?: number;
+    max?: number;
+}
+    | {
+    type: 'dynamiczone';
+    required?: boolean;
+    /** uids of the allowed components */
+    components: string[];
+    min?: number;
+    max?: number;
 }
     | {
     type: 'relation'
-    relation: 'oneToOne' | 'oneToMany' | 'manyToOne' | 'manyToMany';
-    relationType: 'oneToOne' | 'oneToMany' | 'manyToOne' | 'manyToMany';
-    target: string;
-    targetModel: string;
+    relation: StrapiRelation;
+    relationType: StrapiRelation;
+    /** uid of the related content type, absent for polymorphic morphToOne and morphToMany relations */
+    target?: string;
+    targetModel?: string;
 };
 
+export interface StrapiLocale {
+    id: number;
+    name: string;
+    code: string;
+    isDefault: boolean;
+}
+
+export type StrapiRelation =
+    | 'oneToOne' | 'oneToMany' | 'manyToOne' | 'manyToMany'
+    | 'oneWay' | 'manyWay'
+    | 'morphToOne' | 'morphToMany' | 'morphOne' | 'morphMany';
+
 export type StrapiDocumentFields = Record<string, any>;
 
 export interface StrapiDocument {
-    id: number;
+    /** Strapi v5 documents are identified by their documentId and locale, see toV5DocumentId */
+    id: number | string;
+    /** Strapi v5 only */
+    documentId?: string;
     type: string;
     /** the document's fields matching the model fields */
     attributes: StrapiDocumentFields;
 }
 
-export interface ExampleAsset {
-    id: string;
-    createdAt: string;
-    updatedAt: string;
-    url: string;
-    title: string;
+export interface StrapiAssetFormat {
+    name: string;
+    hash: string;
+    ext: string;
+    mime: string;
     width: number;
     height: number;
+    /** size in KB */
+    size: number;
+    url: string;
+}
+
+export interface StrapiAsset {
+    id: number;
+    name: string;
+    alternativeText: string | null;
+    caption: string | null;
+    width: number | null;
+    height: number | null;
+    /** generated thumbnails and responsive variants (thumbnail, small, medium, large) */
+    formats: Record<string, StrapiAssetFormat> | null;
+    hash: string;
+    ext: string;
+    mime: string;
+    /** size in KB */
+    size: number;
+    url: string;
+    previewUrl: string | null;
+    provider: string;
+    createdAt: string;
+    updatedAt: string;
 }
 
 export type ExampleContentChangeEvent =
@@ -104,263 +266,874 @@ export type ExampleContentChangeEvent =
 }
     | {
     name: 'document-deleted';
-    documentId: string;
+    /** the Strapi content type apiID */
+    type: string;
+    id: number | string;
+}
+    | {
+    name: 'asset-created' | 'asset-updated';
+    asset: StrapiAsset;
 }
     | {
-    name: 'asset-created';
-    asset: ExampleAsset;
+    name: 'asset-deleted';
+    assetId: number;
 };
 
-export interface ExampleWebhook {
+export const STRAPI_WEBHOOK_EVENTS = [
+    'entry.create',
+    'entry.update',
+    'entry.delete',
+    'entry.publish',
+    'entry.unpublish',
+    'media.create',
+    'media.update',
+    'media.delete'
+] as const;
+
+export type StrapiWebhookEvent = typeof STRAPI_WEBHOOK_EVENTS[number];
+
+export interface StrapiWebhook {
+    id: number;
     name: string;
+    url: string;
+    headers: Record<string, string>;
+    events: StrapiWebhookEvent[];
+    isEnabled: boolean;
+}
+
+/**
+ * Payload sent by Strapi to the registered webhooks.
+ */
+export type StrapiWebhookPayload =
+    | {
+    event: 'entry.create' | 'entry.update' | 'entry.delete' | 'entry.publish' | 'entry.unpublish';
+    createdAt: string;
+    /** the content type singularName */
+    model: string;
+    /** the content type uid (not sent by older Strapi v4 versions) */
+    uid?: string;
+    entry: StrapiDocumentFields & { id: number; documentId?: string };
+}
+    | {
+    event: 'media.create' | 'media.update' | 'media.delete';
+    createdAt: string;
+    media: StrapiAsset;
+};
+
+export interface StrapiAdminUser {
+    id: number;
+    email: string;
+    isActive: boolean;
+    blocked: boolean;
+    roles: { id: number; code: string; name: string }[];
+}
+
+export interface StrapiPermission {
+    /** e.g. `plugin::content-manager.explorer.update` */
+    action: string;
+    /** content type uid */
+    subject: string | null;
+}
+
+interface ContentChangeObserver {
+    id: string;
+    callback: (options: { observerId: string; events: ExampleContentChangeEvent[] }) => void;
+    timer?: NodeJS.Timeout;
+    /** for each content type uid, the known document ids and the most recent updatedAt already notified */
+    state: Map<string, { ids: Set<number | string>; lastUpdatedAt: string }>;
 }
 
 /**
- * All ExampleApiClient methods are asynchronous to simulate a real API client.
- * All content mutation methods schedule an asynchronous event with a short
- * delay to simulate a real world use case of a headless CMS pushing the updated
- * content to CDN.
+ * Client of the Strapi content API (authenticated with an API token) and of the admin API (authenticated with an
+ * admin JWT).
+ * Content changes are observed by polling Strapi, which is useful in local development where Strapi can't reach
+ * the Stackbit webhook.
  */
 export class StrapiApiClient {
     private readonly url: string;
     private readonly token: string;
-    private readonly jwt: string;
-    private webhooks: ExampleWebhook[] = [];
-    private contentChangeObservers: {
-        id: string;
-        callback: (options: { observerId: string; events: ExampleContentChangeEvent[] }) => void;
-    }[] = [];
+    private jwt?: string;
+    private readonly adminEmail?: string;
+    private readonly adminPassword?: string;
+    private login?: Promise<string>;
+    private readonly populateDepth: number;
+    private readonly concurrency: number;
+    private version?: StrapiVersion;
+    private components = new Map<string, StrapiComponent>();
+    private localizedContentTypes = new Set<string>();
+    private populateQueries = new Map<string, string>();
+    private localeCodes?: string[];
+    private missingTokenPermissions?: { contentTypeUids: string; checkedAt: number; missingPermissions: string[] };
+    private contentChangeObservers: ContentChangeObserver[] = [];
 
     constructor(options: StrapiApiClientOptions) {
         this.url = options.url;
         this.token = options.token;
         this.jwt = options.jwt;
+        this.adminEmail = options.adminEmail;
+        this.adminPassword = options.adminPassword;
+        this.populateDepth = options.populateDepth ?? DEFAULT_POPULATE_DEPTH;
+        this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        this.version = options.version;
     }
 
-    async getComponents(): Promise<StrapiComponent[]> {
-        const components: StrapiComponent[] = await (await (await fetch(`${this.url}/content-manager/components`, {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.jwt}`,
-                'Content-Type': 'application/json',
+    /**
+     * Detects the major version of the Strapi server when it is not configured. Called once before any other request,
+     * the content API requests and responses depend on it.
+     */
+    async getStrapiVersion(): Promise<StrapiVersion> {
+        if (!this.version) {
+            try {
+                const information = (await this.request('/admin/information', {admin: true})).data;
+                this.version = Number(String(information.strapiVersion).split('.')[0]) >= 5 ? 5 : 4;
+            } catch (error) {
+                // servers without the information endpoint are assumed to be Strapi v4
+                if (!(error instanceof StrapiApiError && error.status === 404)) {
+                    throw error;
+                }
+                this.version = 4;
+            }
+            console.log(`Strapi version: ${this.version}`);
+        }
+        return this.version;
+    }
+
+    private get v5(): boolean {
+        return this.version === 5;
+    }
+
+    /**
+     * Sends a request to the Strapi API and returns the parsed response, throwing a StrapiApiError on error responses.
+     * Idempotent requests are retried with an exponential backoff on network errors and transient failures.
+     */
+    private async request<T = any>(path: string, options: StrapiRequestOptions = {}): Promise<T> {
+        const method = options.method ?? 'GET';
+        const retries = IDEMPOTENT_METHODS.includes(method) ? MAX_RETRIES : 0;
+        for (let attempt = 0; ; attempt++) {
+            let response: Response;
+            try {
+                response = await this.send(path, method, options);
+            } catch (error) {
+                if (attempt >= retries) {
+                    throw error;
+                }
+                console.log(`${method} ${path} failed (${error}), retrying`);
+                await wait(RETRY_DELAY_MS * 2 ** attempt);
+                continue;
+            }
+            if (response.ok) {
+                return response.status === 204 ? undefined as T : await response.json();
+            }
+            if (attempt < retries && RETRYABLE_STATUSES.includes(response.status)) {
+                console.log(`${method} ${path} failed with ${response.status}, retrying`);
+                await wait(RETRY_DELAY_MS * 2 ** attempt);
+                continue;
             }
-        })).json())
-            .data;
+            const result = await response.json().catch(() => undefined);
+            const message = response.status === 401 && options.admin
+                ? 'Strapi admin authentication failed: check the jwt or the admin credentials'
+                : result?.error?.message ?? response.statusText;
+            throw new StrapiApiError(`${method} ${path} failed with ${response.status}: ${message}`, response.status, path, result?.error?.details);
+        }
+    }
+
+    /**
+     * Admin requests use the admin JWT. When admin credentials are configured, logs in when there is no JWT yet and
+     * logs in again once when the JWT is rejected (expired admin session).
+     */
+    private async send(path: string, method: string, options: StrapiRequestOptions): Promise<Response> {
+        const canLogin = !!options.admin && !!this.adminEmail && !!this.adminPassword;
+        if (canLogin && !this.jwt) {
+            this.jwt = await this.adminLogin();
+        }
+        const isFormData = options.body instanceof FormData;
+        const sendOnce = () => fetch(`${this.url}${path}`, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${options.admin ? this.jwt : this.token}`,
+                // no Content-Type header for multipart bodies: fetch sets the boundary itself
+                ...(isFormData ? {} : {'Content-Type': 'application/json'})
+            },
+            body: options.body === undefined || isFormData ? options.body as FormData | undefined : JSON.stringify(options.body)
+        });
+        const response = await sendOnce();
+        if (response.status === 401 && canLogin) {
+            console.log('Strapi admin JWT rejected, logging in again');
+            this.jwt = await this.adminLogin();
+            return sendOnce();
+        }
+        return response;
+    }
+
+    /**
+     * Concurrent calls share the same login request.
+     */
+    private adminLogin(): Promise<string> {
+        if (!this.login) {
+            this.login = this.request<{ data: { token: string } }>('/admin/login', {
+                method: 'POST',
+                body: {email: this.adminEmail, password: this.adminPassword}
+            })
+                .then(result => result.data.token)
+                .finally(() => {
+                    this.login = undefined;
+                });
+        }
+        return this.login;
+    }
+
+    async getComponents(): Promise<StrapiComponent[]> {
+        const components: StrapiComponent[] = (await this.request('/content-manager/components', {admin: true})).data;
         console.log(`Components: ${components.map(m => m.apiID).join(',')}`);
+        // needed to populate the documents components
+        this.components = new Map(components.map(component => [component.uid, component]));
+        this.populateQueries.clear();
         return components;
     }
 
     async getContentTypes(): Promise<StrapiContentType[]> {
-        const contentTypes: StrapiContentType[] = await (await (await fetch(`${this.url}/content-manager/content-types`, {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.jwt}`,
-                'Content-Type': 'application/json',
-            }
-        })).json())
+        const contentTypes: StrapiContentType[] = (await this.request('/content-manager/content-types', {admin: true}))
             .data
             .filter((d: StrapiContentType) => d.uid.startsWith('api::'));
         console.log(`Content types: ${contentTypes.map(m => m.apiID).join(',')}`);
+        // Strapi v5 relations to localized content types are populated with their locale
+        this.localizedContentTypes = new Set(contentTypes.filter(contentType => contentType.pluginOptions?.i18n?.localized).map(contentType => contentType.uid));
+        this.populateQueries.clear();
         return contentTypes;
     }
 
-    async getContentTypeSettings(): Promise<StrapiContentTypeSetting[]> {
-        return await (await (await fetch(`${this.url}/content-manager/content-types-settings`, {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.jwt}`,
-                'Content-Type': 'application/json',
+    async getLocales(): Promise<StrapiLocale[]> {
+        let locales: StrapiLocale[];
+        try {
+            locales = await this.request('/i18n/locales', {admin: true});
+        } catch (error) {
+            if (error instanceof StrapiApiError && error.status === 404) {
+                // i18n plugin not installed
+                this.localeCodes = [];
+                return [];
             }
-        })).json())
-            .data
-            .filter((i: StrapiContentTypeSetting) => i.uid.startsWith('api::'));
+            throw error;
+        }
+        console.log(`Locales: ${locales.map(locale => locale.code).join(',')}`);
+        this.localeCodes = locales.map(locale => locale.code);
+        return locales;
+    }
+
+    private async getLocaleCodes(): Promise<string[]> {
+        return this.localeCodes ?? (await this.getLocales()).map(locale => locale.code);
     }
 
-    async getDocuments(models: (StrapiContentType | StrapiComponent)[]): Promise<StrapiDocument[]> {
+    async getConfigurations(models: (StrapiContentType | StrapiComponent)[]): Promise<StrapiConfiguration[]> {
+        return await mapWithConcurrency(models, this.concurrency, async model => {
+            const kind = model.uid.startsWith('api::') ? 'content-types' : 'components';
+            const configuration = (await this.request(`/content-manager/${kind}/${model.uid}/configuration`, {admin: true})).data;
+            return kind === 'content-types' ? configuration.contentType : configuration.component;
+        });
+    }
+
+    /**
+     * Loads the documents of the content types. Content types having a previous snapshot only load the documents
+     * updated since, and the ids of all their documents to drop the deleted ones.
+     * @param contentTypes
+     * @param snapshots the documents of the previous sync, by content type uid
+     */
+    async syncDocuments(
+        contentTypes: StrapiContentType[],
+        snapshots: Record<string, StrapiContentTypeSnapshot> = {}
+    ): Promise<Record<string, StrapiContentTypeSnapshot>> {
         console.log(`Getting documents...`);
-        return (await Promise.all(
-            models
-                .filter(model => model.uid.startsWith('api::'))
-                .map(model => {
-                    return this.getDocumentsOfModel(model as StrapiContentType);
-                })
-        )).flat();
+        const syncedSnapshots = await mapWithConcurrency(
+            contentTypes,
+            this.concurrency,
+            contentType => this.syncDocumentsOfModel(contentType, snapshots[contentType.uid])
+        );
+        return Object.fromEntries(contentTypes.map((contentType, index) => [contentType.uid, syncedSnapshots[index]]));
+    }
+
+    private async syncDocumentsOfModel(model: StrapiContentType, snapshot: StrapiContentTypeSnapshot | undefined): Promise<StrapiContentTypeSnapshot> {
+        if (!snapshot?.syncedAt) {
+            const documents = await this.withPublicationDates(model, await this.getDocumentsOfModel(model));
+            return {syncedAt: toLastUpdatedAt(documents, ''), documents};
+        }
+        const updatedDocuments = await this.getDocumentsOfModel(model, {updatedAfter: snapshot.syncedAt});
+        const ids = new Set((await this.getDocumentVersionsOfModel(model)).map(version => version.id));
+        const documents = new Map(snapshot.documents.map(document => [document.id, document]));
+        for (const document of updatedDocuments) {
+            documents.set(document.id, document);
+        }
+        const syncedDocuments = await this.withPublicationDates(model, [...documents.values()].filter(document => ids.has(document.id)));
+        console.log(`Synced ${model.info.pluralName}: ${updatedDocuments.length} updated, ${documents.size - syncedDocuments.length} deleted`);
+        return {syncedAt: toLastUpdatedAt(updatedDocuments, snapshot.syncedAt), documents: syncedDocuments};
     }
 
-    private async getDocumentsOfModel(model: StrapiContentType): Promise<StrapiDocument[]> {
+    /**
+     * @param model
+     * @param options.updatedAfter only loads the documents updated after this date
+     * @param options.quiet doesn't log the loading progress, when polling for changes
+     */
+    private async getDocumentsOfModel(model: StrapiContentType, options: { updatedAfter?: string; quiet?: boolean } = {}): Promise<StrapiDocument[]> {
+        if (model.kind === 'singleType') {
+            const documents = await this.getSingleTypeDocuments(model);
+            return documents.filter(document => !options.updatedAfter || document.attributes.updatedAt > options.updatedAfter);
+        }
         const documents: StrapiDocument[] = [];
+        const filters = options.updatedAfter ? `&filters[updatedAt][$gt]=${encodeURIComponent(options.updatedAfter)}` : '';
+        const locale = this.getLocaleQuery(model);
         let nbPages = 1;
         for (let page = 1; page <= nbPages; page++) {
-            console.log(`Downloading page ${page}/${nbPages} for ${model.info.singularName}`);
-            const result = await (await fetch(`${this.url}/api/${model.info.pluralName}?pagination[pageSize]=100&pagination[page]=${page}&publicationState=preview&populate=*`, {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${this.token}`,
-                    'Content-Type': 'application/json',
-                }
-            })).json();
-            const items: StrapiDocument[] = await result
+            if (!options.quiet) {
+                console.log(`Downloading page ${page}/${nbPages} for ${model.info.singularName}`);
+            }
+            const result = await this.request(`/api/${model.info.pluralName}?pagination[pageSize]=100&pagination[page]=${page}&${this.getDraftsQuery()}${this.getPopulateQuery(model)}${filters}${locale}`);
+            const items: StrapiDocument[] = result
                 .data
-                .map((document: Partial<StrapiDocument>) => ({...document, type: model.apiID}));
+                .map((entry: Record<string, any>) => this.toDocument(model, entry));
             nbPages = result.meta.pagination.pageCount;
             documents.push(...items);
         }
-        console.log(`Found ${documents.length} ${model.info.pluralName}`);
+        if (!options.quiet) {
+            console.log(`Found ${documents.length} ${model.info.pluralName}`);
+        }
         return documents;
     }
 
-    async getAssets(): Promise<ExampleAsset[]> {
-        return [];
-    }
-
-    async createDocument(options: { type: string; fields: Record<string, any> }): Promise<StrapiDocument> {
-        // const date = new Date().toISOString();
-        // const document: StrapiDocument = {
-        //     id: uuidv4(),
-        //     type: options.type,
-        //     createdAt: date,
-        //     updatedAt: date,
-        //     status: 'draft',
-        //     fields: options.fields
-        // };
-        // const data = await this.loadData();
-        // data.documents.push(document);
-        // await this.saveData(data);
-        // this.notifyObservers({
-        //     events: [
-        //         {
-        //             name: 'document-created',
-        //             document: document
-        //         }
-        //     ]
-        // });
-        // return document;
-        return {} as StrapiDocument;
-    }
-
-    async updateDocument(contentType: string, id: string, fields: Record<string, any>): Promise<StrapiDocument> {
-        await fetch(`${this.url}/api/${contentType}/${id}`, {
-            method: 'PUT',
-            headers: {
-                'Authorization': `Bearer ${this.token}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                data: fields
+    /**
+     * Every locale of localized single types is loaded.
+     */
+    private async getSingleTypeDocuments(model: StrapiContentType): Promise<StrapiDocument[]> {
+        const locales = model.pluginOptions?.i18n?.localized ? await this.getLocaleCodes() : [undefined];
+        const documents = await Promise.all(locales.map(locale => this.getSingleTypeDocument(model, locale)));
+        return documents.filter((document): document is StrapiDocument => !!document);
+    }
+
+    private async getSingleTypeDocument(model: StrapiContentType, locale?: string): Promise<StrapiDocument | undefined> {
+        const entry = await this.getSingleTypeEntry(model, `${this.getDraftsQuery()}${this.getPopulateQuery(model)}`, locale);
+        return entry ? this.toDocument(model, entry) : undefined;
+    }
+
+    /**
+     * Single types are served at /api/{singularName}, without id nor pagination.
+     * @param model
+     * @param query the query string, without the locale
+     * @param locale the locale of localized single types, the default locale when missing
+     */
+    private async getSingleTypeEntry(model: StrapiContentType, query: string, locale?: string): Promise<Record<string, any> | undefined> {
+        try {
+            return (await this.request(`/api/${model.info.singularName}?${query}${toSingleTypeLocaleQuery(locale)}`)).data ?? undefined;
+        } catch (error) {
+            if (error instanceof StrapiApiError && error.status === 404) {
+                // the single type has not been created yet, in this locale
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Strapi v4 returns the entries with their attributes wrapped in `attributes`, Strapi v5 entries are converted to
+     * this shape.
+     */
+    private toDocument(model: StrapiContentType, entry: Record<string, any>): StrapiDocument {
+        return this.v5
+            ? fromV5Document(entry, model.apiID, model.attributes, this.components)
+            : {...entry as Omit<StrapiDocument, 'type'>, type: model.apiID};
+    }
+
+    /**
+     * Loads the latest version of the documents, be it a draft or not.
+     */
+    private getDraftsQuery(): string {
+        return this.v5 ? 'status=draft' : 'publicationState=preview';
+    }
+
+    /**
+     * Strapi v5 keeps the draft and the published versions of a document apart: the drafts are loaded with the
+     * publication date of their published version, so that the document status is computed as for Strapi v4.
+     */
+    private async withPublicationDates(model: StrapiContentType, documents: StrapiDocument[]): Promise<StrapiDocument[]> {
+        if (!this.v5 || !model.options?.draftAndPublish || !documents.length) {
+            return documents;
+        }
+        const fields = `fields[0]=publishedAt${model.pluginOptions?.i18n?.localized ? '&fields[1]=locale' : ''}`;
+        let publishedEntries: Record<string, any>[];
+        if (model.kind === 'singleType') {
+            // single types never published are not found
+            publishedEntries = (await Promise.all(documents.map(document => this.getSingleTypeEntry(model, `status=published&${fields}`, document.attributes.locale))))
+                .filter((entry): entry is Record<string, any> => !!entry);
+        } else {
+            publishedEntries = await this.getAllPages(`/api/${model.info.pluralName}?status=published&${fields}${this.getLocaleQuery(model)}`);
+        }
+        const publicationDates = new Map(publishedEntries.map(entry => [toV5DocumentId(entry.documentId, entry.locale), entry.publishedAt]));
+        return documents.map(document => ({
+            ...document,
+            attributes: {...document.attributes, publishedAt: publicationDates.get(String(document.id)) ?? null}
+        }));
+    }
+
+    /**
+     * Loads the entries of every page, the other pages are loaded in parallel once the page count is known.
+     * @param path the path of the request, with a query string
+     */
+    private async getAllPages(path: string): Promise<Record<string, any>[]> {
+        const getPage = (page: number) => this.request(`${path}&pagination[pageSize]=100&pagination[page]=${page}`);
+        const firstPage = await getPage(1);
+        const otherPages = await mapWithConcurrency(
+            Array.from({length: Math.max(firstPage.meta.pagination.pageCount - 1, 0)}, (_, index) => index + 2),
+            this.concurrency,
+            getPage
+        );
+        return [firstPage, ...otherPages].flatMap(result => result.data);
+    }
+
+    /**
+     * `populate=*` only resolves one level: the populate query is built from the schema to resolve nested components.
+     */
+    private getPopulateQuery(model: StrapiContentType): string {
+        let populateQuery = this.populateQueries.get(model.uid);
+        if (populateQuery === undefined) {
+            populateQuery = this.v5
+                ? toPopulateQuery(model.attributes, this.components, this.populateDepth, target => this.localizedContentTypes.has(target) ? ['id', 'locale'] : ['id'])
+                : toPopulateQuery(model.attributes, this.components, this.populateDepth);
+            this.populateQueries.set(model.uid, populateQuery);
+        }
+        return populateQuery ? `&${populateQuery}` : '';
+    }
+
+    /**
+     * Entries of localized content types are only returned for the default locale unless all locales are requested.
+     */
+    private getLocaleQuery(model: StrapiContentType): string {
+        if (!model.pluginOptions?.i18n?.localized) {
+            return '';
+        }
+        return this.v5 ? '&locale=*' : '&locale=all';
+    }
+
+    /**
+     * Lists the ids and last update dates of all the documents of a model, without their content.
+     */
+    private async getDocumentVersionsOfModel(model: StrapiContentType): Promise<{ id: number | string; updatedAt: string }[]> {
+        // the locale is part of the ids of Strapi v5 localized documents
+        const fields = `fields[0]=updatedAt${model.pluginOptions?.i18n?.localized ? '&fields[1]=locale' : ''}`;
+        if (model.kind === 'singleType') {
+            const locales = model.pluginOptions?.i18n?.localized ? await this.getLocaleCodes() : [undefined];
+            const singleTypeEntries = await Promise.all(locales.map(locale => this.getSingleTypeEntry(model, `${this.getDraftsQuery()}&${fields}`, locale)));
+            return singleTypeEntries
+                .filter((entry): entry is Record<string, any> => !!entry)
+                .map(entry => this.toDocument(model, entry))
+                .map(document => ({id: document.id, updatedAt: document.attributes.updatedAt}));
+        }
+        const entries = await this.getAllPages(`/api/${model.info.pluralName}?${this.getDraftsQuery()}&${fields}${this.getLocaleQuery(model)}`);
+        return entries
+            .map(entry => this.toDocument(model, entry))
+            .map(document => ({id: document.id, updatedAt: document.attributes.updatedAt}));
+    }
+
+    /**
+     * @param model
+     * @param id the document id
+     * @param locale the locale of single type documents, which are not loaded by id
+     */
+    async getDocument(model: StrapiContentType, id: number | string, locale?: string): Promise<StrapiDocument> {
+        let document: StrapiDocument | undefined;
+        if (model.kind === 'singleType') {
+            document = await this.getSingleTypeDocument(model, locale);
+            if (!document) {
+                throw new Error(`Single type ${model.info.singularName} not found${locale ? ` in locale ${locale}` : ''}`);
+            }
+        } else {
+            const result = this.v5
+                ? await this.request(`/api/${model.info.pluralName}/${fromV5DocumentId(id).documentId}?status=draft${toV5LocaleQuery(id)}${this.getPopulateQuery(model)}`)
+                : await this.request(`/api/${model.info.pluralName}/${id}?publicationState=preview${this.getPopulateQuery(model)}`);
+            document = this.toDocument(model, result.data);
+        }
+        const [documentWithPublicationDate] = await this.withPublicationDates(model, [document]);
+        return documentWithPublicationDate;
+    }
+
+    /**
+     * Loads the last update date of a document only, to detect concurrent modifications.
+     * @param model
+     * @param id the document id, undefined for single types
+     * @param locale the locale of single type documents
+     */
+    async getDocumentUpdatedAt(model: StrapiContentType, id: number | string | undefined, locale?: string): Promise<string> {
+        const path = !id
+            ? `/api/${model.info.singularName}?${this.getDraftsQuery()}${toSingleTypeLocaleQuery(locale)}`
+            : this.v5
+            ? `/api/${model.info.pluralName}/${fromV5DocumentId(id).documentId}?${this.getDraftsQuery()}${toV5LocaleQuery(id)}`
+            : `/api/${model.info.pluralName}/${id}?${this.getDraftsQuery()}`;
+        const result = await this.request(`${path}&fields[0]=updatedAt`);
+        return this.toDocument(model, result.data).attributes.updatedAt;
+    }
+
+    async getAssets(): Promise<StrapiAsset[]> {
+        console.log(`Getting assets...`);
+        const assets: StrapiAsset[] = [];
+        const pageSize = 100;
+        for (let start = 0; ; start += pageSize) {
+            // the upload plugin returns a plain array without pagination meta: stop on the first incomplete page
+            const items: StrapiAsset[] = await this.request(`/api/upload/files?start=${start}&limit=${pageSize}&sort=id:asc`);
+            assets.push(...items);
+            if (items.length < pageSize) {
+                break;
+            }
+        }
+        console.log(`Found ${assets.length} assets`);
+        return assets;
+    }
+
+    /**
+     * @param model
+     * @param fields
+     * @param options.locale the locale of the created document, for localized content types
+     * @param options.defaultLocaleId the id of the document to which the created document is linked as a localization
+     */
+    async createDocument(
+        model: StrapiContentType,
+        fields: Record<string, any>,
+        options: { locale?: string; defaultLocaleId?: number | string } = {}
+    ): Promise<StrapiDocument> {
+        if (this.v5) {
+            return this.createV5Document(model, fields, options);
+        }
+        // the content API publishes new entries by default: create them as drafts
+        const data = {
+            ...fields,
+            ...(model.options?.draftAndPublish ? {publishedAt: null} : {}),
+            ...(options.locale ? {locale: options.locale} : {})
+        };
+        const result = options.defaultLocaleId
+            ? await this.request(model.kind === 'singleType'
+                ? `/api/${model.info.singularName}/localizations`
+                : `/api/${model.info.pluralName}/${options.defaultLocaleId}/localizations`, {
+                method: 'POST',
+                // the localizations endpoint doesn't expect the fields to be wrapped in data
+                body: data
             })
-        });
+            : model.kind === 'singleType'
+            // without the locale query, the default locale entry would be updated
+            ? await this.request(`/api/${model.info.singularName}${toSingleTypeLocaleQuery(options.locale, '?')}`, {
+                method: 'PUT',
+                body: {data}
+            })
+            : await this.request(`/api/${model.info.pluralName}`, {
+                method: 'POST',
+                body: {data}
+            });
+        // the creation response is not populated: load the complete document
+        return this.getDocument(model, options.defaultLocaleId ? result.id : result.data.id, options.locale);
+    }
+
+    /**
+     * Strapi v5 creates the new locales of a document by updating the document in that locale, and publishes new
+     * documents unless they are created as drafts.
+     */
+    private async createV5Document(
+        model: StrapiContentType,
+        fields: Record<string, any>,
+        options: { locale?: string; defaultLocaleId?: number | string }
+    ): Promise<StrapiDocument> {
+        const data = toV5Fields(fields, model.attributes, this.components);
+        const query = `status=draft${options.locale ? `&locale=${options.locale}` : ''}`;
+        const result = model.kind === 'singleType'
+            ? await this.request(`/api/${model.info.singularName}?${query}`, {
+                method: 'PUT',
+                body: {data}
+            })
+            : options.defaultLocaleId
+            ? await this.request(`/api/${model.info.pluralName}/${fromV5DocumentId(options.defaultLocaleId).documentId}?${query}`, {
+                method: 'PUT',
+                body: {data}
+            })
+            : await this.request(`/api/${model.info.pluralName}?${query}`, {
+                method: 'POST',
+                body: {data}
+            });
+        return this.getDocument(model, toV5DocumentId(result.data.documentId, result.data.locale), options.locale);
+    }
+
+    /**
+     * @param model
+     * @param id the document id, undefined for single types
+     * @param fields
+     * @param locale the locale of single type documents
+     * @return the updated document, without its relations, media and components
+     */
+    async updateDocument(model: StrapiContentType, id: string | undefined, fields: Record<string, any>, locale?: string): Promise<StrapiDocument> {
+        const endpoint = model.kind === 'singleType' ? model.info.singularName : model.info.pluralName;
+        const result = this.v5
+            // only the draft is updated
+            ? await this.request(`/api/${endpoint}${id ? `/${fromV5DocumentId(id).documentId}` : ''}?status=draft${id ? toV5LocaleQuery(id) : toSingleTypeLocaleQuery(locale)}`, {
+                method: 'PUT',
+                body: {data: toV5Fields(fields, model.attributes, this.components)}
+            })
+            : await this.request(`/api/${endpoint}${id ? `/${id}` : toSingleTypeLocaleQuery(locale, '?')}`, {
+                method: 'PUT',
+                body: {data: fields}
+            });
+        return this.toDocument(model, result.data);
+    }
+
+    /**
+     * @param contentType the api endpoint of the content type
+     * @param id the document id, undefined for single types
+     * @param locale the locale of single type documents
+     */
+    async deleteDocument(contentType: string, id: string | undefined, locale?: string): Promise<void> {
+        try {
+            const path = !id
+                ? `/api/${contentType}${toSingleTypeLocaleQuery(locale, '?')}`
+                : this.v5
+                ? `/api/${contentType}/${fromV5DocumentId(id).documentId}${toV5LocaleQuery(id, '?')}`
+                : `/api/${contentType}/${id}`;
+            await this.request(path, {method: 'DELETE'});
+        } catch (error) {
+            if (error instanceof StrapiApiError && error.status === 403) {
+                throw new StrapiApiError(`Could not delete ${contentType} ${id}: the API token is not allowed to delete ${contentType}`, error.status, error.path, error.details);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * @param uid the content type uid
+     * @param id the document id, undefined for single types
+     * @param locale the locale of single type documents
+     */
+    async publishDocument(uid: string, id: string | undefined, locale?: string): Promise<void> {
+        await this.postContentManagerAction(uid, id, 'publish', locale);
+    }
 
-        // const data = await this.loadData();
-        // const document = data.documents.find((document) => document.id === options.documentId);
-        // if (!document) {
-        //     throw new Error(`'document with id '${options.documentId}' not found`);
-        // }
-        // Object.assign(document.fields, options.fields, {
-        //     updatedAt: new Date().toISOString(),
-        //     status: 'changed'
-        // });
-        // await this.saveData(data);
-        // this.notifyObservers({
-        //     events: [
-        //         {
-        //             name: 'document-updated',
-        //             document: document
-        //         }
-        //     ]
-        // });
-        // return document;
-        return {} as StrapiDocument;
-    }
-
-    async deleteDocument(options: { documentId: string }): Promise<void> {
-        // const data = await this.loadData();
-        // const index = data.documents.findIndex((document) => document.id === options.documentId);
-        // if (index !== -1) {
-        //     data.documents.splice(index, 1);
-        //     await this.saveData(data);
-        //     this.notifyObservers({
-        //         events: [
-        //             {
-        //                 name: 'document-deleted',
-        //                 documentId: options.documentId
-        //             }
-        //         ]
-        //     });
-        // }
-    }
-
-    async publishDocuments(options: { documentIds: string[] }): Promise<void> {
-        // const data = await this.loadData();
-        // const updatedDocuments: StrapiDocument[] = [];
-        // for (const documentId of options.documentIds) {
-        //     const document = data.documents.find((document) => document.id === documentId);
-        //     if (document) {
-        //         document.status = 'published';
-        //         updatedDocuments.push(document);
-        //     }
-        // }
-        // await this.saveData(data);
-        // this.notifyObservers({
-        //     events: updatedDocuments.map((document) => ({
-        //         name: 'document-updated',
-        //         document: document
-        //     }))
-        // });
-    }
-
-    async uploadAsset(options: { url: string; title: string; width: number; height: number }): Promise<ExampleAsset> {
-        // const date = new Date().toISOString();
-        // const asset: ExampleAsset = {
-        //     id: uuidv4(),
-        //     createdAt: date,
-        //     updatedAt: date,
-        //     url: options.url,
-        //     title: options.title,
-        //     width: options.width,
-        //     height: options.height
-        // };
-        // const data = await this.loadData();
-        // data.assets.push(asset);
-        // await this.saveData(data);
-        // this.notifyObservers({
-        //     events: [
-        //         {
-        //             name: 'asset-created',
-        //             asset: asset
-        //         }
-        //     ]
-        // });
-        // return asset;
-        return {} as ExampleAsset;
+    /**
+     * @param uid the content type uid
+     * @param id the document id, undefined for single types
+     * @param locale the locale of single type documents
+     */
+    async unpublishDocument(uid: string, id: string | undefined, locale?: string): Promise<void> {
+        await this.postContentManagerAction(uid, id, 'unpublish', locale);
     }
 
+    /**
+     * Publication goes through the content-manager actions so that Strapi sets publishedAt and updatedAt itself.
+     */
+    private async postContentManagerAction(uid: string, id: string | undefined, action: 'publish' | 'unpublish', locale?: string): Promise<void> {
+        const singleTypeLocale = !locale ? '' : this.v5 ? `?locale=${locale}` : `?plugins[i18n][locale]=${locale}`;
+        const path = !id
+            ? `single-types/${uid}/actions/${action}${singleTypeLocale}`
+            : this.v5
+            ? `collection-types/${uid}/${fromV5DocumentId(id).documentId}/actions/${action}${toV5LocaleQuery(id, '?')}`
+            : `collection-types/${uid}/${id}/actions/${action}`;
+        await this.request(`/content-manager/${path}`, {method: 'POST', admin: true});
+    }
+
+    async uploadAsset(options: {
+        url?: string;
+        base64?: string;
+        fileName: string;
+        mimeType: string;
+        alternativeText?: string;
+    }): Promise<StrapiAsset> {
+        let content: Blob;
+        if (options.base64) {
+            // strip the data URL prefix if any (data:image/png;base64,...)
+            const base64 = options.base64.replace(/^data:[^,]*,/, '');
+            content = new Blob([Buffer.from(base64, 'base64')], {type: options.mimeType});
+        } else if (options.url) {
+            const download = await fetch(options.url);
+            if (!download.ok) {
+                throw new Error(`Could not download asset from ${options.url}: ${download.status} ${download.statusText}`);
+            }
+            content = new Blob([await download.arrayBuffer()], {type: options.mimeType});
+        } else {
+            throw new Error('Uploading an asset requires either an url or a base64 payload');
+        }
+
+        const formData = new FormData();
+        formData.append('files', content, options.fileName);
+        formData.append('fileInfo', JSON.stringify({
+            name: options.fileName,
+            alternativeText: options.alternativeText ?? null,
+            caption: null
+        }));
+        const [asset]: StrapiAsset[] = await this.request('/api/upload', {method: 'POST', body: formData});
+        console.log(`Uploaded asset ${asset.id} (${asset.name})`);
+        return asset;
+    }
+
+    /**
+     * Polls Strapi every `pollingInterval` milliseconds for documents updated since the last poll, and diffs the
+     * document ids to find the deleted ones.
+     */
     async startObservingContentChanges(options: {
+        models: StrapiContentType[];
+        pollingInterval: number;
         callback: (options: { observerId: string; events: ExampleContentChangeEvent[] }) => void
     }): Promise<string> {
-        // const observerId = uuidv4();
-        // this.contentChangeObservers.push({
-        //     id: observerId,
-        //     callback: options.callback
-        // });
-        // return observerId;
-        return '';
+        const observer: ContentChangeObserver = {
+            id: randomUUID(),
+            callback: options.callback,
+            state: new Map()
+        };
+        for (const model of options.models) {
+            const versions = await this.getDocumentVersionsOfModel(model);
+            observer.state.set(model.uid, {
+                ids: new Set(versions.map(version => version.id)),
+                lastUpdatedAt: versions.reduce((lastUpdatedAt, version) => version.updatedAt > lastUpdatedAt ? version.updatedAt : lastUpdatedAt, '')
+            });
+        }
+        this.contentChangeObservers.push(observer);
+
+        const poll = async () => {
+            try {
+                const events = await this.pollContentChanges(observer, options.models);
+                if (events.length) {
+                    observer.callback({observerId: observer.id, events});
+                }
+            } catch (error) {
+                console.error(`Could not poll content changes: ${error}`);
+            }
+            // the observer may have been stopped while polling
+            if (this.contentChangeObservers.includes(observer)) {
+                observer.timer = setTimeout(poll, options.pollingInterval);
+            }
+        };
+        observer.timer = setTimeout(poll, options.pollingInterval);
+        return observer.id;
+    }
+
+    private async pollContentChanges(observer: ContentChangeObserver, models: StrapiContentType[]): Promise<ExampleContentChangeEvent[]> {
+        const events: ExampleContentChangeEvent[] = [];
+        for (const model of models) {
+            const state = observer.state.get(model.uid) ?? {ids: new Set<number | string>(), lastUpdatedAt: ''};
+            const updatedDocuments = await this.withPublicationDates(model, state.lastUpdatedAt
+                ? await this.getDocumentsOfModel(model, {updatedAfter: state.lastUpdatedAt, quiet: true})
+                : await this.getDocumentsOfModel(model, {quiet: true}));
+            const currentIds = new Set((await this.getDocumentVersionsOfModel(model)).map(version => version.id));
+            for (const document of updatedDocuments) {
+                events.push({name: state.ids.has(document.id) ? 'document-updated' : 'document-created', document});
+                if (document.attributes.updatedAt > state.lastUpdatedAt) {
+                    state.lastUpdatedAt = document.attributes.updatedAt;
+                }
+            }
+            for (const id of state.ids) {
+                if (!currentIds.has(id)) {
+                    events.push({name: 'document-deleted', type: model.apiID, id});
+                }
+            }
+            state.ids = currentIds;
+            observer.state.set(model.uid, state);
+        }
+        return events;
     }
 
     async stopObservingContentChanges(options: { observerId: string }): Promise<void> {
         const index = this.contentChangeObservers.findIndex((observer) => observer.id === options.observerId);
         if (index !== -1) {
+            clearTimeout(this.contentChangeObservers[index].timer);
             this.contentChangeObservers.splice(index, 1);
         }
     }
 
-    async getWebhook(options: { name: string }): Promise<ExampleWebhook | undefined> {
-        return this.webhooks.find((webhook) => webhook.name === options.name);
+    async getWebhook(options: { name: string }): Promise<StrapiWebhook | undefined> {
+        const webhooks: StrapiWebhook[] = (await this.request('/admin/webhooks', {admin: true})).data;
+        return webhooks.find((webhook) => webhook.name === options.name);
+    }
+
+    async createWebhook(options: { name: string; url: string; headers: Record<string, string> }): Promise<StrapiWebhook> {
+        return (await this.request('/admin/webhooks', {
+            method: 'POST',
+            admin: true,
+            body: {
+                name: options.name,
+                url: options.url,
+                headers: options.headers,
+                events: STRAPI_WEBHOOK_EVENTS,
+                isEnabled: true
+            }
+        })).data;
+    }
+
+    async updateWebhook(webhook: StrapiWebhook): Promise<StrapiWebhook> {
+        const {id, ...webhookFields} = webhook;
+        return (await this.request(`/admin/webhooks/${id}`, {
+            method: 'PUT',
+            admin: true,
+            body: webhookFields
+        })).data;
+    }
+
+    /**
+     * Probes the content API endpoints the token needs to write documents, without modifying anything: invalid
+     * payloads are rejected with a 400 and unknown ids with a 404 once the token permissions have been checked,
+     * whereas missing permissions are rejected with a 401 or a 403.
+     * Returns the missing permissions, e.g. `create api::article.article`, or undefined when Strapi can't be reached.
+     * Publication goes through the admin API, it needs no token permission. The result is kept for the same content
+     * types during TOKEN_PERMISSIONS_TTL_MS.
+     */
+    async getMissingTokenPermissions(contentTypes: StrapiContentType[]): Promise<string[] | undefined> {
+        const contentTypeUids = contentTypes.map(contentType => contentType.uid).sort().join(',');
+        if (
+            this.missingTokenPermissions?.contentTypeUids === contentTypeUids &&
+            Date.now() - this.missingTokenPermissions.checkedAt < TOKEN_PERMISSIONS_TTL_MS
+        ) {
+            return this.missingTokenPermissions.missingPermissions;
+        }
+        try {
+            const missingPermissions = await mapWithConcurrency(contentTypes, this.concurrency, async contentType => {
+                const probes: [action: string, method: string, path: string][] = contentType.kind === 'singleType'
+                    ? [['update', 'PUT', `/api/${contentType.info.singularName}`]]
+                    : [
+                        ['create', 'POST', `/api/${contentType.info.pluralName}`],
+                        ['update', 'PUT', `/api/${contentType.info.pluralName}/0`],
+                        ['delete', 'DELETE', `/api/${contentType.info.pluralName}/0`]
+                    ];
+                const missing: string[] = [];
+                for (const [action, method, path] of probes) {
+                    // probes are not retried
+                    const response = await this.send(path, method, {body: method === 'DELETE' ? undefined : {}});
+                    if (response.status === 401 || response.status === 403) {
+                        missing.push(`${action} ${contentType.uid}`);
+                    }
+                }
+                return missing;
+            });
+            this.missingTokenPermissions = {contentTypeUids, checkedAt: Date.now(), missingPermissions: missingPermissions.flat()};
+            return this.missingTokenPermissions.missingPermissions;
+        } catch (error) {
+            console.error(`Strapi can't be reached at ${this.url}`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Returns false when the admin API, needed to publish documents and read the schema, can't be authenticated.
+     */
+    async isAdminSessionValid(): Promise<boolean> {
+        try {
+            await this.request('/admin/users/me', {admin: true});
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    async getAdminUser(email: string): Promise<StrapiAdminUser | undefined> {
+        const users: StrapiAdminUser[] = (await this.request(`/admin/users?filters[email][$eq]=${encodeURIComponent(email)}`, {admin: true}))
+            .data
+            .results;
+        return users.find(user => user.email.toLowerCase() === email.toLowerCase());
+    }
+
+    async getRolePermissions(roleId: number): Promise<StrapiPermission[]> {
+        return (await this.request(`/admin/roles/${roleId}/permissions`, {admin: true})).data;
     }
 
-    async createWebhook(options: { name: string }): Promise<ExampleWebhook> {
-        const webhook = {name: options.name};
-        this.webhooks.push(webhook);
-        return webhook;
+    /**
+     * Permissions of the admin user the admin API is authenticated with.
+     */
+    async getAdminSessionPermissions(): Promise<StrapiPermission[]> {
+        return (await this.request('/admin/users/me/permissions', {admin: true})).data;
     }
 
     private notifyObservers({delay = 200, events}: { delay?: number; events: ExampleContentChangeEvent[] }): void {
@@ -372,3 +1145,36 @@ export class StrapiApiClient {
         }
     }
 }
+
+function toLastUpdatedAt(documents: StrapiDocument[], lastUpdatedAt: string): string {
+    return documents.reduce((last, document) => document.attributes.updatedAt > last ? document.attributes.updatedAt : last, lastUpdatedAt);
+}
+
+/**
+ * Query string parameter selecting the locale of a single type, if any.
+ * @param locale
+ * @param separator `?` when it is the first parameter of the query string
+ */
+function toSingleTypeLocaleQuery(locale?: string, separator: '?' | '&' = '&'): string {
+    return locale ? `${separator}locale=${locale}` : '';
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Like `Promise.all(items.map(callback))`, with at most `concurrency` callbacks running at once.
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, callback: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const workers = Array.from({length: Math.min(concurrency, items.length)}, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await callback(items[index]);
+        }
+    });
+    await Promise.all(workers);
+    return results;
+}
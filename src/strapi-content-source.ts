@@ -1,3 +1,4 @@
+import * as path from 'path';
 import type {
     Asset,
     Cache,
@@ -17,20 +18,41 @@ import type {
 } from '@stackbit/types';
 
 import {
-    stackbitUpdatedFieldToExampleFields,
+    stackbitUpdateOperationFieldsToStrapiFields,
     stackbitUpdatesToStrapiFields,
     StrapiAssetContext,
     StrapiDocumentContext,
     StrapiModelContext,
+    StrapiPageModelOptions,
     StrapiSchemaContext,
     toStackbitAssets,
+    toStackbitDocumentId,
     toStackbitDocuments,
-    toStackbitModels
+    toStrapiDocumentId,
+    toStackbitModels,
+    validateStackbitDocuments
 } from './strapi-source-utils';
-import {StrapiApiClient, StrapiComponent, StrapiContentType} from './strapi-api-client';
+import {
+    ExampleContentChangeEvent,
+    StrapiApiClient,
+    StrapiComponent,
+    StrapiConflictError,
+    StrapiContentType,
+    StrapiPermission,
+    StrapiWebhookPayload
+} from './strapi-api-client';
+import {DEFAULT_POPULATE_DEPTH} from './strapi-populate';
+import {DEFAULT_SNAPSHOT_PATH, loadSnapshot, saveSnapshot, SNAPSHOT_VERSION, StrapiSnapshot, toSchemaHash} from './strapi-snapshot';
+import {StrapiVersion, toV5DocumentId} from './strapi-v5';
 
 export const ID_SEPARATOR = `#`;
 
+const WEBHOOK_NAME = 'stackbit-content-source';
+const WEBHOOK_SECRET_HEADER = 'x-stackbit-webhook-secret';
+const DEFAULT_POLLING_INTERVAL = 5000;
+/** content manager actions needed on every content type by Stackbit users, publish only on the ones with draft & publish */
+const CONTENT_MANAGER_ACTIONS = ['create', 'update', 'delete', 'publish'];
+
 /**
  * Define user-specific context properties like user-specific OAuth accessToken.
  * To use UserContext, an OAuth integration between the underlying
@@ -50,7 +72,46 @@ export interface ExampleUserContext {
 export interface ContentSourceOptions {
     url?: string;
     token: string;
-    jwt: string;
+    /**
+     * Admin JWT, used to read the schema and to publish documents. It expires with the admin session, prefer the
+     * admin credentials that let the content source log in again when needed.
+     */
+    jwt?: string;
+    /**
+     * Credentials of a Strapi admin user, default to the `STRAPI_ADMIN_EMAIL` and `STRAPI_ADMIN_PASSWORD` environment
+     * variables.
+     */
+    adminEmail?: string;
+    adminPassword?: string;
+    /**
+     * Shared secret sent by Strapi in the `x-stackbit-webhook-secret` header of webhook calls.
+     * When set, webhook calls without the matching header are rejected.
+     */
+    webhookSecret?: string;
+    /**
+     * Interval in milliseconds between two polls of Strapi for content changes, used when Stackbit doesn't provide
+     * a webhook URL (local development). Defaults to 5000.
+     */
+    pollingInterval?: number;
+    /**
+     * Strapi content types to expose as Stackbit pages, by content type uid, e.g.
+     * `{'api::article.article': {urlPath: '/blog/{slug}'}}`.
+     * Other content types are exposed as data models.
+     */
+    pageModels?: Record<string, StrapiPageModelOptions>;
+    /**
+     * Maximum depth of nested components populated when loading documents. Defaults to 5.
+     */
+    populateDepth?: number;
+    /**
+     * Major version of the Strapi server, 4 or 5. Detected from the admin API when missing.
+     */
+    strapiVersion?: StrapiVersion;
+    /**
+     * File where the loaded documents are saved, so that the next startups only load the documents updated since.
+     * Relative paths are resolved from the current directory. Defaults to `.stackbit/strapi-snapshot.json`.
+     */
+    snapshotPath?: string;
 }
 
 export let stackbitCache!: Cache<StrapiSchemaContext, StrapiDocumentContext, StrapiAssetContext, StrapiModelContext>;
@@ -62,24 +123,41 @@ export let stackbitCache!: Cache<StrapiSchemaContext, StrapiDocumentContext, Str
 export class StrapiContentSource implements ContentSourceInterface<ExampleUserContext, StrapiSchemaContext, StrapiDocumentContext, StrapiAssetContext, StrapiModelContext> {
     private readonly strapiUrl: string;
     private readonly token: string;
-    private readonly jwt: string;
+    private readonly jwt?: string;
+    private readonly adminEmail?: string;
+    private readonly adminPassword?: string;
+    private readonly webhookSecret?: string;
+    private readonly pollingInterval: number;
+    private readonly pageModels: Record<string, StrapiPageModelOptions>;
+    private readonly populateDepth?: number;
+    private readonly snapshotPath: string;
+    private strapiVersion?: StrapiVersion;
     private readonly manageUrl: string;
     private logger!: Logger;
     private userLogger!: Logger;
     private localDev!: boolean;
+    private webhookUrl?: string;
     private apiClient!: StrapiApiClient;
     private observerId?: string;
     private strapiModels?: (StrapiContentType | StrapiComponent)[];
 
-    constructor({url, token, jwt}: ContentSourceOptions) {
+    constructor({url, token, jwt, adminEmail, adminPassword, webhookSecret, pollingInterval, pageModels, populateDepth, snapshotPath, strapiVersion}: ContentSourceOptions) {
         if (!token) {
             throw new Error('StrapiContentSource requires token');
         }
-        if (!jwt) {
-            throw new Error('StrapiContentSource requires jwt');
+        this.adminEmail = adminEmail ?? process.env.STRAPI_ADMIN_EMAIL;
+        this.adminPassword = adminPassword ?? process.env.STRAPI_ADMIN_PASSWORD;
+        if (!jwt && !(this.adminEmail && this.adminPassword)) {
+            throw new Error('StrapiContentSource requires jwt or adminEmail and adminPassword');
         }
         this.jwt = jwt;
         this.token = token;
+        this.webhookSecret = webhookSecret;
+        this.pollingInterval = pollingInterval ?? DEFAULT_POLLING_INTERVAL;
+        this.pageModels = pageModels ?? {};
+        this.populateDepth = populateDepth;
+        this.snapshotPath = path.resolve(snapshotPath ?? DEFAULT_SNAPSHOT_PATH);
+        this.strapiVersion = strapiVersion;
         this.strapiUrl = url ?? 'http://localhost:1337';
         this.manageUrl = `${this.strapiUrl}/admin/content-manager`;
     }
@@ -104,13 +182,19 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
             url: this.strapiUrl,
             token: this.token,
             jwt: this.jwt,
+            adminEmail: this.adminEmail,
+            adminPassword: this.adminPassword,
+            populateDepth: this.populateDepth,
+            version: this.strapiVersion
         });
         this.localDev = localDev;
+        this.webhookUrl = webhookUrl;
 
         // Create new loggers with a custom label. That label will be prepended to log messages.
         this.logger = logger.createLogger({label: 'strapi-content-source'});
         this.userLogger = userLogger.createLogger({label: 'strapi-content-source'});
 
+        this.strapiVersion = await this.apiClient.getStrapiVersion();
         await this.initWebhook(webhookUrl);
         this.logger.info(`initialized content source`);
     }
@@ -121,7 +205,7 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
 
     async getSchema(): Promise<Schema<StrapiSchemaContext, StrapiModelContext>> {
         const models = await this.getModels();
-        const locales = this.getLocales();
+        const locales = await this.getLocales();
         return {
             context: {},
             models,
@@ -131,12 +215,56 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
 
     async getDocuments(): Promise<Document<StrapiDocumentContext>[]> {
         // tslint:disable-next-line:no-non-null-assertion
-        return toStackbitDocuments(await this.apiClient.getDocuments(this.strapiModels!), this.manageUrl);
+        const strapiModels = this.strapiModels!;
+        const schemaHash = toSchemaHash(strapiModels);
+        // tslint:disable-next-line:no-non-null-assertion
+        const strapiVersion = this.strapiVersion!;
+        const populateDepth = this.populateDepth ?? DEFAULT_POPULATE_DEPTH;
+        const snapshot = await this.loadSnapshot(schemaHash, strapiVersion, populateDepth);
+        const contentTypes = await this.apiClient.syncDocuments(
+            strapiModels.filter((model): model is StrapiContentType => model.uid.startsWith('api::')),
+            snapshot?.contentTypes
+        );
+        try {
+            await saveSnapshot(this.snapshotPath, {version: SNAPSHOT_VERSION, url: this.strapiUrl, strapiVersion, populateDepth, schemaHash, contentTypes});
+        } catch (error) {
+            this.logger.warn(`could not save the documents snapshot to ${this.snapshotPath}`, error);
+        }
+        const documents = Object.values(contentTypes).flatMap(contentType => contentType.documents);
+        return toStackbitDocuments(documents, this.manageUrl, this.strapiUrl);
+    }
+
+    /**
+     * Snapshots of another Strapi server, version or schema, or loaded with another populate depth, are ignored: all the
+     * documents are loaded again.
+     */
+    private async loadSnapshot(schemaHash: string, strapiVersion: StrapiVersion, populateDepth: number): Promise<StrapiSnapshot | undefined> {
+        let snapshot: StrapiSnapshot | undefined;
+        try {
+            snapshot = await loadSnapshot(this.snapshotPath);
+        } catch (error) {
+            this.logger.warn(`could not read the documents snapshot ${this.snapshotPath}`, error);
+            return undefined;
+        }
+        if (!snapshot) {
+            return undefined;
+        }
+        if (
+            snapshot.version !== SNAPSHOT_VERSION ||
+            snapshot.url !== this.strapiUrl ||
+            snapshot.strapiVersion !== strapiVersion ||
+            snapshot.populateDepth !== populateDepth ||
+            snapshot.schemaHash !== schemaHash
+        ) {
+            this.logger.info('the documents snapshot is outdated, loading all the documents');
+            return undefined;
+        }
+        return snapshot;
     }
 
     async getAssets(): Promise<Asset<StrapiAssetContext>[]> {
         const assets = await this.apiClient.getAssets();
-        return toStackbitAssets(assets, this.manageUrl, this.strapiUrl);
+        return toStackbitAssets(assets, this.strapiUrl);
     }
 
     getProjectManageUrl(): string {
@@ -147,33 +275,46 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
         if (this.observerId) {
             await this.stopWatchingContentUpdates();
         }
+        if (this.webhookUrl) {
+            // content changes are pushed by the Strapi webhook, see onWebhook
+            return;
+        }
+        this.logger.info(`polling Strapi for content changes every ${this.pollingInterval}ms`);
         this.observerId = await this.apiClient.startObservingContentChanges({
+            models: (this.strapiModels ?? []).filter((model): model is StrapiContentType => model.uid.startsWith('api::')),
+            pollingInterval: this.pollingInterval,
             callback: ({events}) => {
-                this.logger.info(`got events: ${JSON.stringify(events, null, 2)}`);
-                const contentChanges: ContentChangeEvent<StrapiDocumentContext, StrapiAssetContext> = {
-                    documents: [],
-                    assets: [],
-                    deletedDocumentIds: [],
-                    deletedAssetIds: [],
-                    scheduledActions: [],
-                    deletedScheduledActionIds: []
-                };
-                for (const event of events) {
-                    if (event.name === 'document-created' || event.name === 'document-updated') {
-                        const createdDocument = toStackbitDocuments([event.document], this.manageUrl)[0];
-                        contentChanges.documents.push(createdDocument);
-                    } else if (event.name === 'document-deleted') {
-                        contentChanges.deletedDocumentIds.push(event.documentId);
-                    } else if (event.name === 'asset-created') {
-                        const createdAsset = toStackbitAssets([event.asset], this.manageUrl, this.strapiUrl)[0];
-                        contentChanges.assets.push(createdAsset);
-                    }
-                }
-                stackbitCache.updateContent(contentChanges);
+                this.logger.info(`got events: ${events.map(toEventSummary).join(', ')}`);
+                this.onContentChangeEvents(events);
             }
         });
     }
 
+    private onContentChangeEvents(events: ExampleContentChangeEvent[]) {
+        const contentChanges: ContentChangeEvent<StrapiDocumentContext, StrapiAssetContext> = {
+            documents: [],
+            assets: [],
+            deletedDocumentIds: [],
+            deletedAssetIds: [],
+            scheduledActions: [],
+            deletedScheduledActionIds: []
+        };
+        for (const event of events) {
+            if (event.name === 'document-created' || event.name === 'document-updated') {
+                const createdDocument = toStackbitDocuments([event.document], this.manageUrl, this.strapiUrl)[0];
+                contentChanges.documents.push(createdDocument);
+            } else if (event.name === 'document-deleted') {
+                contentChanges.deletedDocumentIds.push(toStackbitDocumentId(event.type, event.id));
+            } else if (event.name === 'asset-created' || event.name === 'asset-updated') {
+                const createdAsset = toStackbitAssets([event.asset], this.strapiUrl)[0];
+                contentChanges.assets.push(createdAsset);
+            } else if (event.name === 'asset-deleted') {
+                contentChanges.deletedAssetIds.push(`${event.assetId}`);
+            }
+        }
+        stackbitCache.updateContent(contentChanges);
+    }
+
     getProjectEnvironment(): string {
         return 'main';
     }
@@ -192,16 +333,17 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
     private async initWebhook(webhookUrl: string | undefined) {
         if (webhookUrl) {
             this.logger.info(`checking if stackbit webhook exists`);
-            let webhook = await this.apiClient.getWebhook({name: 'stackbit-content-source'});
+            const headers: Record<string, string> = this.webhookSecret ? {[WEBHOOK_SECRET_HEADER]: this.webhookSecret} : {};
+            let webhook = await this.apiClient.getWebhook({name: WEBHOOK_NAME});
             if (!webhook) {
-                this.logger.info(`no webhook 'stackbit-content-source' was found, creating a new webhook`);
-                const newWebhook = await this.apiClient.createWebhook({name: 'stackbit-content-source'});
-                if (newWebhook) {
-                    webhook = newWebhook;
-                }
+                this.logger.info(`no webhook '${WEBHOOK_NAME}' was found, creating a new webhook`);
+                webhook = await this.apiClient.createWebhook({name: WEBHOOK_NAME, url: webhookUrl, headers});
+            } else if (webhook.url !== webhookUrl || JSON.stringify(webhook.headers) !== JSON.stringify(headers) || !webhook.isEnabled) {
+                this.logger.info(`updating webhook '${WEBHOOK_NAME}' with url ${webhookUrl}`);
+                webhook = await this.apiClient.updateWebhook({...webhook, url: webhookUrl, headers, isEnabled: true});
             }
             if (webhook) {
-                this.logger.info('got a stackbit-content-source webhook');
+                this.logger.info(`got a ${WEBHOOK_NAME} webhook`);
             }
         }
     }
@@ -211,40 +353,91 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
             await this.apiClient.stopObservingContentChanges({
                 observerId: this.observerId
             });
+            this.observerId = undefined;
         }
     }
 
     private async getModels(): Promise<Model<StrapiModelContext>[]> {
         this.strapiModels = [...await this.apiClient.getComponents(), ...await this.apiClient.getContentTypes()];
-        const contentTypeSettings = await this.apiClient.getContentTypeSettings();
-        return toStackbitModels(this.strapiModels, contentTypeSettings);
+        const configurations = await this.apiClient.getConfigurations(this.strapiModels);
+        for (const uid of Object.keys(this.pageModels)) {
+            if (!this.strapiModels.some(model => model.uid === uid)) {
+                this.logger.warn(`page model ${uid} does not match any Strapi content type`);
+            }
+        }
+        return toStackbitModels(this.strapiModels, configurations, this.pageModels);
     }
 
-    private getLocales(): Locale[] {
-        return []; // No multiple locales in this example
+    private async getLocales(): Promise<Locale[]> {
+        const locales = await this.apiClient.getLocales();
+        return locales.map((locale): Locale => ({
+            code: locale.code,
+            default: locale.isDefault
+        }));
     }
 
-    async hasAccess(options: { userContext?: ExampleUserContext }): Promise<{
+    async hasAccess(options: { userContext?: User<ExampleUserContext> }): Promise<{
         hasConnection: boolean;
         hasPermissions: boolean;
     }> {
-        if (this.localDev) {
-            return {hasConnection: true, hasPermissions: true};
+        let contentTypes: StrapiContentType[];
+        let missingPermissions: string[] | undefined;
+        try {
+            const models = this.strapiModels ?? await this.apiClient.getContentTypes();
+            contentTypes = models.filter((model): model is StrapiContentType => model.uid.startsWith('api::'));
+            missingPermissions = await this.apiClient.getMissingTokenPermissions(contentTypes);
+        } catch (error) {
+            this.logger.error('failed to check the Strapi permissions', error);
+            return {hasConnection: false, hasPermissions: false};
         }
-        // Use userContext.accessToken to check if user has write access to this content source
-        /*
-        if (!options?.userContext?.accessToken) {
-            return { hasConnection: false, hasPermissions: false };
+        if (!missingPermissions) {
+            return {hasConnection: false, hasPermissions: false};
         }
-        const hasAccess = this.apiClient.hasAccess({
-            accessToken: options?.userContext?.accessToken;
-        })
-        return {
-            hasConnection: true,
-            hasPermissions: hasAccess
-        };
-         */
-        return {hasConnection: true, hasPermissions: true};
+        if (missingPermissions.length) {
+            this.logger.warn(`the Strapi API token is missing permissions: ${missingPermissions.join(', ')}`);
+            return {hasConnection: true, hasPermissions: false};
+        }
+        if (!await this.apiClient.isAdminSessionValid()) {
+            this.logger.warn('the Strapi admin JWT is invalid or expired');
+            return {hasConnection: true, hasPermissions: false};
+        }
+        try {
+            // the admin session only publishes documents, they are written with the API token
+            const missingAdminPermissions = toMissingContentManagerPermissions(await this.apiClient.getAdminSessionPermissions(), contentTypes, ['publish']);
+            if (missingAdminPermissions.length) {
+                this.logger.warn(`the Strapi admin user is missing permissions: ${missingAdminPermissions.join(', ')}`);
+                return {hasConnection: true, hasPermissions: false};
+            }
+            return {
+                hasConnection: true,
+                hasPermissions: options.userContext?.email ? await this.hasAdminUserPermissions(options.userContext.email, contentTypes) : true
+            };
+        } catch (error) {
+            this.logger.error('failed to check the Strapi admin permissions', error);
+            return {hasConnection: true, hasPermissions: false};
+        }
+    }
+
+    /**
+     * Stackbit users are matched with Strapi admin users by email, they need to be able to edit the content types in
+     * the content manager.
+     */
+    private async hasAdminUserPermissions(email: string, contentTypes: StrapiContentType[]): Promise<boolean> {
+        const user = await this.apiClient.getAdminUser(email);
+        if (!user || !user.isActive || user.blocked) {
+            this.logger.warn(`no active Strapi admin user found for ${email}`);
+            return false;
+        }
+        if (user.roles.some(role => role.code === 'strapi-super-admin')) {
+            return true;
+        }
+        const permissions = (await Promise.all(user.roles.map(role => this.apiClient.getRolePermissions(role.id)))).flat();
+        const missingPermissions = toMissingContentManagerPermissions(permissions, contentTypes);
+        if (missingPermissions.length) {
+            this.logger.warn(`the Strapi admin user ${email} is missing permissions: ${missingPermissions.join(', ')}`);
+            return false;
+        }
+        return true;
     }
 
     async createDocument(options: {
@@ -256,11 +449,16 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
     }): Promise<{
         documentId: string;
     }> {
-        const fields = stackbitUpdatedFieldToExampleFields(options.updateOperationFields);
-        const document = await this.apiClient.createDocument({type: options.model.name, fields});
+        const fields = stackbitUpdateOperationFieldsToStrapiFields(options.updateOperationFields);
+        const document = await this.apiClient.createDocument(this.getStrapiContentType(options.model.name), fields, {
+            locale: options.locale,
+            defaultLocaleId: options.defaultLocaleDocumentId ? toStrapiDocumentId(options.defaultLocaleDocumentId) : undefined
+        });
         this.logger.info(`created document, id: ${document.id}`);
+        const stackbitDocument = toStackbitDocuments([document], this.manageUrl, this.strapiUrl)[0];
+        await stackbitCache.updateContent({documents: [stackbitDocument]});
         return {
-            documentId: toStackbitDocuments([document], this.manageUrl)[0].id
+            documentId: stackbitDocument.id
         };
     }
 
@@ -269,17 +467,39 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
         operations: UpdateOperation[];
         userContext?: User<ExampleUserContext>;
     }): Promise<void> {
-        const fields = stackbitUpdatesToStrapiFields(options.operations);
+        const fields = stackbitUpdatesToStrapiFields(options.operations, options.document);
         const [contentType, id] = options.document.id.split(ID_SEPARATOR);
         const model = stackbitCache.getModelByName(contentType);
+        const strapiContentType = this.getStrapiContentType(contentType);
         // tslint:disable-next-line:no-non-null-assertion
-        await this.apiClient.updateDocument(model!.context!.apiEndpoint!, id, fields);
+        const strapiId = model!.context!.singleType ? undefined : id;
+        const locale = options.document.locale;
+        // optimistic concurrency: the document must not have been modified in Strapi since it was loaded, otherwise
+        // the update would overwrite these modifications
+        const updatedAt = await this.apiClient.getDocumentUpdatedAt(strapiContentType, strapiId, locale);
+        if (new Date(updatedAt).getTime() !== new Date(options.document.updatedAt).getTime()) {
+            await this.refreshDocument(strapiContentType, options.document.id, locale);
+            throw new StrapiConflictError(
+                `document ${options.document.id} has been modified in Strapi at ${updatedAt}, after it was loaded: review the latest version and apply your changes again`
+            );
+        }
+        await this.apiClient.updateDocument(strapiContentType, strapiId, fields, locale);
+        // the cached document must have the new updatedAt before the next update
+        await this.refreshDocument(strapiContentType, options.document.id, locale);
+    }
+
+    private async refreshDocument(strapiContentType: StrapiContentType, documentId: string, locale?: string): Promise<void> {
+        const strapiDocument = await this.apiClient.getDocument(strapiContentType, toStrapiDocumentId(documentId), locale);
+        await stackbitCache.updateContent({documents: toStackbitDocuments([strapiDocument], this.manageUrl, this.strapiUrl)});
     }
 
     async deleteDocument(options: { document: Document<StrapiDocumentContext>; userContext?: ExampleUserContext }): Promise<void> {
-        await this.apiClient.deleteDocument({
-            documentId: options.document.id
-        });
+        const [contentType, id] = options.document.id.split(ID_SEPARATOR);
+        const model = stackbitCache.getModelByName(contentType);
+        // tslint:disable-next-line:no-non-null-assertion
+        await this.apiClient.deleteDocument(model!.context!.apiEndpoint!, model!.context!.singleType ? undefined : id, options.document.locale);
+        this.logger.info(`deleted document, id: ${options.document.id}`);
+        await stackbitCache.updateContent({deletedDocumentIds: [options.document.id]});
     }
 
     async uploadAsset(options: {
@@ -290,17 +510,15 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
         locale?: string;
         userContext?: ExampleUserContext;
     }): Promise<Asset<StrapiAssetContext>> {
-        if (!options.url) {
-            throw new Error('uploading assets from base64 is not supported');
-        }
-
         const asset = await this.apiClient.uploadAsset({
             url: options.url,
-            title: options.fileName,
-            width: 100,
-            height: 100
+            base64: options.base64,
+            fileName: options.fileName,
+            mimeType: options.mimeType,
+            alternativeText: options.fileName.replace(/\.[^.]*$/, '')
         });
-        return toStackbitAssets([asset], this.manageUrl, this.strapiUrl)[0];
+        this.logger.info(`uploaded asset, id: ${asset.id}`);
+        return toStackbitAssets([asset], this.strapiUrl)[0];
     }
 
     async validateDocuments(options: {
@@ -309,7 +527,7 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
         locale?: string;
         userContext?: ExampleUserContext;
     }): Promise<{ errors: ValidationError[] }> {
-        return {errors: []};
+        return {errors: validateStackbitDocuments(options.documents, this.strapiModels ?? [])};
     }
 
     async publishDocuments(options: {
@@ -317,13 +535,112 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
         assets: Asset<StrapiAssetContext>[];
         userContext?: ExampleUserContext;
     }): Promise<void> {
-        await this.apiClient.publishDocuments({
-            documentIds: options.documents.map((document) => document.id)
-        });
+        await this.updatePublicationState(options.documents, 'publish');
     }
 
-    async onWebhook(data: { data: any; headers: Record<string, string> }): Promise<void> {
-        return;
+    /**
+     * Not part of the ContentSourceInterface of @stackbit/types 0.8: Stackbit doesn't call it yet.
+     */
+    async unpublishDocuments(options: {
+        documents: Document<StrapiDocumentContext>[];
+        userContext?: ExampleUserContext;
+    }): Promise<void> {
+        await this.updatePublicationState(options.documents, 'unpublish');
+    }
+
+    private async updatePublicationState(documents: Document<StrapiDocumentContext>[], action: 'publish' | 'unpublish'): Promise<void> {
+        const updatedDocuments: Document<StrapiDocumentContext>[] = [];
+        for (const document of documents) {
+            const [contentType, id] = document.id.split(ID_SEPARATOR);
+            const model = stackbitCache.getModelByName(contentType);
+            if (!model?.context?.draftAndPublish) {
+                this.logger.info(`skipping ${action} of document ${document.id}: draft & publish is disabled on ${contentType}`);
+                continue;
+            }
+            // Strapi rejects publishing a published entry without changes, and unpublishing a draft
+            if (document.status === (action === 'publish' ? 'published' : 'added')) {
+                this.logger.info(`skipping ${action} of document ${document.id}: already ${action}ed`);
+                continue;
+            }
+            const documentId = model.context.singleType ? undefined : id;
+            if (action === 'publish') {
+                await this.apiClient.publishDocument(model.context.uid, documentId, document.locale);
+            } else {
+                await this.apiClient.unpublishDocument(model.context.uid, documentId, document.locale);
+            }
+            const strapiDocument = await this.apiClient.getDocument(this.getStrapiContentType(contentType), toStrapiDocumentId(document.id), document.locale);
+            updatedDocuments.push(toStackbitDocuments([strapiDocument], this.manageUrl, this.strapiUrl)[0]);
+        }
+        this.logger.info(`${action}ed ${updatedDocuments.length} documents`);
+        await stackbitCache.updateContent({documents: updatedDocuments});
+    }
+
+    async onWebhook({data, headers}: { data: StrapiWebhookPayload; headers: Record<string, string> }): Promise<void> {
+        if (this.webhookSecret) {
+            const secret = Object.entries(headers).find(([name]) => name.toLowerCase() === WEBHOOK_SECRET_HEADER)?.[1];
+            if (secret !== this.webhookSecret) {
+                this.logger.warn(`rejected webhook call with a missing or invalid ${WEBHOOK_SECRET_HEADER} header`);
+                return;
+            }
+        }
+        this.logger.info(`got webhook event ${data.event}`);
+        const events: ExampleContentChangeEvent[] = [];
+        switch (data.event) {
+            case 'entry.create':
+            case 'entry.update':
+            case 'entry.publish':
+            case 'entry.unpublish': {
+                const model = this.getContentTypeForWebhook(data.uid, data.model);
+                if (model) {
+                    // the webhook entry is not populated: load the complete document
+                    const document = await this.apiClient.getDocument(model, this.toWebhookEntryId(data.entry), data.entry.locale);
+                    events.push({name: data.event === 'entry.create' ? 'document-created' : 'document-updated', document});
+                }
+                break;
+            }
+            case 'entry.delete': {
+                const model = this.getContentTypeForWebhook(data.uid, data.model);
+                if (model) {
+                    events.push({name: 'document-deleted', type: model.apiID, id: this.toWebhookEntryId(data.entry)});
+                }
+                break;
+            }
+            case 'media.create':
+            case 'media.update':
+                events.push({name: data.event === 'media.create' ? 'asset-created' : 'asset-updated', asset: data.media});
+                break;
+            case 'media.delete':
+                events.push({name: 'asset-deleted', assetId: data.media.id});
+                break;
+            default:
+                this.logger.warn(`unhandled webhook event ${(data as { event: string }).event}`);
+        }
+        if (events.length) {
+            this.onContentChangeEvents(events);
+        }
+    }
+
+    private getStrapiContentType(modelName: string): StrapiContentType {
+        const contentType = (this.strapiModels ?? [])
+            .filter((model): model is StrapiContentType => model.uid.startsWith('api::'))
+            .find(model => model.apiID.replace(/-/g, '_') === modelName);
+        if (!contentType) {
+            throw new Error(`no Strapi content type found for model ${modelName}`);
+        }
+        return contentType;
+    }
+
+    private getContentTypeForWebhook(uid: string | undefined, singularName: string): StrapiContentType | undefined {
+        return (this.strapiModels ?? [])
+            .filter((model): model is StrapiContentType => model.uid.startsWith('api::'))
+            .find(model => uid ? model.uid === uid : model.info.singularName === singularName);
+    }
+
+    /**
+     * Strapi v5 webhook entries are identified by their documentId and locale.
+     */
+    private toWebhookEntryId(entry: { id: number; documentId?: string; locale?: string }): number | string {
+        return entry.documentId ? toV5DocumentId(entry.documentId, entry.locale) : entry.id;
     }
 
     async reset(): Promise<void> {
@@ -334,3 +651,38 @@ export class StrapiContentSource implements ContentSourceInterface<ExampleUserCo
         return;
     }
 }
+
+/**
+ * Event name and id, e.g. `document-updated article 12`.
+ */
+function toEventSummary(event: ExampleContentChangeEvent): string {
+    switch (event.name) {
+        case 'document-created':
+        case 'document-updated':
+            return `${event.name} ${event.document.type} ${event.document.id}`;
+        case 'document-deleted':
+            return `${event.name} ${event.type} ${event.id}`;
+        case 'asset-created':
+        case 'asset-updated':
+            return `${event.name} ${event.asset.id}`;
+        case 'asset-deleted':
+            return `${event.name} ${event.assetId}`;
+    }
+}
+
+/**
+ * Returns the content manager actions missing on the content types, e.g. `publish api::article.article`.
+ */
+function toMissingContentManagerPermissions(
+    permissions: StrapiPermission[],
+    contentTypes: StrapiContentType[],
+    actions: string[] = CONTENT_MANAGER_ACTIONS
+): string[] {
+    return contentTypes.flatMap(contentType => actions
+        .filter(action => action !== 'publish' || contentType.options?.draftAndPublish)
+        .filter(action => !permissions.some(permission =>
+            permission.action === `plugin::content-manager.explorer.${action}` && permission.subject === contentType.uid
+        ))
+        .map(action => `${action} ${contentType.uid}`)
+    );
+}
@@ -0,0 +1,91 @@
+import type {AttributeModel, StrapiComponent} from './strapi-api-client';
+
+export const DEFAULT_POPULATE_DEPTH = 5;
+
+type Populate = { [attributeName: string]: true | PopulateAttribute };
+
+interface PopulateAttribute {
+    fields?: string[];
+    populate?: Populate;
+    on?: { [componentUid: string]: { populate?: Populate } | true };
+}
+
+/**
+ * Fields of the related entries to load, by related content type uid.
+ */
+type RelationFields = (targetUid: string) => string[];
+
+/**
+ * Builds the `populate` query parameter resolving every component, dynamic zone, media and relation of the given
+ * attributes, down to `maxDepth` levels of nested components.
+ * Relations are populated with their ids only and media with their url, to keep the payloads small.
+ */
+export function toPopulateQuery(
+    attributes: { [key: string]: AttributeModel },
+    components: Map<string, StrapiComponent>,
+    maxDepth: number = DEFAULT_POPULATE_DEPTH,
+    relationFields: RelationFields = () => ['id']
+): string {
+    return toQueryString({populate: toPopulate(attributes, components, 1, maxDepth, relationFields)});
+}
+
+function toPopulate(
+    attributes: { [key: string]: AttributeModel },
+    components: Map<string, StrapiComponent>,
+    depth: number,
+    maxDepth: number,
+    relationFields: RelationFields
+): Populate {
+    return Object.entries(attributes).reduce((populate: Populate, [attributeName, attribute]) => {
+        switch (attribute.type) {
+            case 'relation':
+                // polymorphic relations can't select fields
+                populate[attributeName] = attribute.target ? {fields: relationFields(attribute.target)} : true;
+                break;
+            case 'media':
+                populate[attributeName] = {fields: ['url']};
+                break;
+            case 'component':
+                // tslint:disable-next-line:no-non-null-assertion
+                populate[attributeName] = toComponentPopulate(attribute.component!, components, depth, maxDepth, relationFields);
+                break;
+            case 'dynamiczone':
+                populate[attributeName] = {
+                    on: attribute.components.reduce((on: NonNullable<PopulateAttribute['on']>, componentUid) => {
+                        on[componentUid] = toComponentPopulate(componentUid, components, depth, maxDepth, relationFields);
+                        return on;
+                    }, {})
+                };
+                break;
+        }
+        return populate;
+    }, {});
+}
+
+function toComponentPopulate(
+    componentUid: string,
+    components: Map<string, StrapiComponent>,
+    depth: number,
+    maxDepth: number,
+    relationFields: RelationFields
+): { populate?: Populate } | true {
+    const component = components.get(componentUid);
+    if (!component || depth >= maxDepth) {
+        return true;
+    }
+    const populate = toPopulate(component.attributes, components, depth + 1, maxDepth, relationFields);
+    return Object.keys(populate).length ? {populate} : true;
+}
+
+/**
+ * Serializes nested objects the way Strapi parses query strings: `populate[seo][populate][image][fields][0]=url`.
+ */
+function toQueryString(value: unknown, prefix = ''): string {
+    if (value !== null && typeof value === 'object') {
+        return Object.entries(value)
+            .map(([key, child]) => toQueryString(child, prefix ? `${prefix}[${key}]` : key))
+            .filter(part => part)
+            .join('&');
+    }
+    return `${prefix}=${encodeURIComponent(String(value))}`;
+}
@@ -0,0 +1,66 @@
+import {createHash} from 'crypto';
+import {promises as fs} from 'fs';
+import * as path from 'path';
+import type {StrapiComponent, StrapiContentType, StrapiDocument} from './strapi-api-client';
+import type {StrapiVersion} from './strapi-v5';
+
+/**
+ * Bumped when the snapshot format changes, older snapshots are then ignored.
+ */
+export const SNAPSHOT_VERSION = 2;
+export const DEFAULT_SNAPSHOT_PATH = '.stackbit/strapi-snapshot.json';
+
+/**
+ * Documents of a content type as of the last sync. `syncedAt` is the most recent `updatedAt` of the documents, the
+ * next sync only loads the documents updated after it.
+ */
+export interface StrapiContentTypeSnapshot {
+    syncedAt: string;
+    documents: StrapiDocument[];
+}
+
+export interface StrapiSnapshot {
+    version: number;
+    url: string;
+    /** documents loaded from another major version of Strapi have other ids */
+    strapiVersion: StrapiVersion;
+    /** documents loaded with a lower depth miss nested components */
+    populateDepth: number;
+    /** documents loaded with another schema are not reused, see toSchemaHash */
+    schemaHash: string;
+    contentTypes: Record<string, StrapiContentTypeSnapshot>;
+}
+
+/**
+ * Any change in the content types or components changes the shape of the loaded documents.
+ */
+export function toSchemaHash(models: (StrapiContentType | StrapiComponent)[]): string {
+    const schema = [...models]
+        .sort((a, b) => a.uid.localeCompare(b.uid))
+        .map(model => ({uid: model.uid, attributes: model.attributes, options: model.options, pluginOptions: (model as StrapiContentType).pluginOptions}));
+    return createHash('sha1').update(JSON.stringify(schema)).digest('hex');
+}
+
+/**
+ * Returns undefined when there is no snapshot yet.
+ */
+export async function loadSnapshot(filePath: string): Promise<StrapiSnapshot | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * The snapshot is written to a temporary file first, so that an interrupted write doesn't leave a corrupted snapshot.
+ */
+export async function saveSnapshot(filePath: string, snapshot: StrapiSnapshot): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), {recursive: true});
+    const tmpFilePath = `${filePath}.tmp`;
+    await fs.writeFile(tmpFilePath, JSON.stringify(snapshot));
+    await fs.rename(tmpFilePath, filePath);
+}
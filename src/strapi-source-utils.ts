@@ -3,13 +3,20 @@ import type {
     DataModel,
     Document,
     DocumentField,
+    DocumentFieldNonLocalized,
+    DocumentStatus,
     Field,
+    FieldListItems,
     Model,
     ObjectModel, PageModel,
     UpdateOperation,
-    UpdateOperationField
+    UpdateOperationField,
+    UpdateOperationInsert,
+    UpdateOperationRemove,
+    UpdateOperationReorder,
+    ValidationError
 } from '@stackbit/types';
-import type {ExampleAsset, StrapiDocument, StrapiContentType, StrapiContentTypeSetting, StrapiDocumentFields} from './strapi-api-client';
+import type {AttributeModel, StrapiAsset, StrapiAssetFormat, StrapiDocument, StrapiContentType, StrapiConfiguration, StrapiDocumentFields} from './strapi-api-client';
 import {StrapiComponent} from './strapi-api-client';
 import {ID_SEPARATOR, stackbitCache} from './strapi-content-source';
 import {FieldSpecificProps} from '@stackbit/types/src/model-fields';
@@ -19,16 +26,30 @@ import {DocumentListFieldItems} from '@stackbit/types/src/content-source-documen
  * Define a custom context for documents, assets, models and the complete schema.
  * This context is stored in the cache and accessible later for any need.
  */
-// tslint:disable-next-line:no-empty-interface
 export interface StrapiDocumentContext {
+    /**
+     * Strapi ids of the document components, by field path ('seo', 'sections.2', 'sections.2.cta'...).
+     * Sending them back lets Strapi update the components in place instead of recreating them.
+     */
+    componentIds: Record<string, number>;
+    /**
+     * Strapi ids of the media of file fields, by field path ('attachment', 'seo.file', 'files.0'...).
+     * Files are only found back by URL in the assets when they are set.
+     */
+    fileIds: Record<string, number>;
 }
 
-// tslint:disable-next-line:no-empty-interface
 export interface StrapiAssetContext {
+    alternativeText: string | null;
+    caption: string | null;
+    formats: Record<string, StrapiAssetFormat> | null;
 }
 
 export interface StrapiModelContext {
+    uid: string;
     draftAndPublish: boolean;
+    /** single types have a unique document, without id in the API endpoints */
+    singleType: boolean;
     apiEndpoint?: string;
 }
 
@@ -40,61 +61,123 @@ const typeMapping: {
     // tslint:disable-next-line:max-line-length
     [key: string]: 'string' | 'number' | 'boolean' | 'url' | 'slug' | 'text' | 'markdown' | 'html' | 'date' | 'datetime' | 'color' | 'json' | 'richText'
 } = {
-    boolean: 'boolean',
-    integer: 'number',
     string: 'string',
-    richtext: 'text',
     text: 'text',
+    richtext: 'markdown',
+    blocks: 'richText',
+    // Stackbit has no email field type
+    email: 'string',
+    uid: 'slug',
+    // big integers are serialized as strings by Strapi to avoid losing precision
+    biginteger: 'string',
+    date: 'date',
+    // HH:mm:ss.SSS
+    time: 'string',
     datetime: 'datetime',
-    json: 'json',
-    enumeration: 'string'
+    timestamp: 'datetime',
+    boolean: 'boolean',
+    json: 'json'
 };
 
+export interface StrapiPageModelOptions {
+    /**
+     * URL path of the pages, where `{fieldName}` is replaced with the value of the document field, e.g. `/blog/{slug}`
+     */
+    urlPath: string;
+}
+
 // tslint:disable-next-line:max-line-length
-export function toStackbitModels(models: (StrapiContentType | StrapiComponent)[], contentTypeSettings: StrapiContentTypeSetting[]): Model<StrapiModelContext>[] {
+export function toStackbitModels(models: (StrapiContentType | StrapiComponent)[], configurations: StrapiConfiguration[], pageModels: Record<string, StrapiPageModelOptions> = {}): Model<StrapiModelContext>[] {
+    // polymorphic relations can target any content type
+    const contentTypeModelNames = models
+        .filter(model => model.uid.startsWith('api::'))
+        .map(model => toContentTypeModelName(model.uid));
     return models.map((model): Model<StrapiModelContext> => {
-        const contentTypeSetting = contentTypeSettings.find(cts => cts.uid === model.uid);
+        const configuration = configurations.find(c => c.uid === model.uid);
+        const singleType = (model as StrapiContentType).kind === 'singleType';
+        const pageModel = pageModels[model.uid];
         return {
-            type: model.uid.startsWith('api::') ? 'data' : 'object',
+            type: pageModel ? 'page' : model.uid.startsWith('api::') ? 'data' : 'object',
+            urlPath: pageModel?.urlPath,
+            singleInstance: singleType,
             name: model.apiID.replace(/-/g, '_'),
+            label: model.info.displayName,
+            description: model.info.description || undefined,
+            // Strapi localizes whole entries: each locale of an entry is a distinct Stackbit document having its
+            // own locale, hence the fields are not localized
+            localized: !!(model as StrapiContentType).pluginOptions?.i18n?.localized,
             context: {
-                draftAndPublish: model.options.draftAndPublish,
-                apiEndpoint: (model as StrapiContentType).info['pluralName']
+                uid: model.uid,
+                draftAndPublish: !!model.options?.draftAndPublish,
+                singleType,
+                apiEndpoint: singleType ? (model as StrapiContentType).info['singularName'] : (model as StrapiContentType).info['pluralName']
             },
-            labelField: contentTypeSetting?.settings?.mainField,
-            fields: Object.entries(model.attributes)
+            labelField: configuration?.settings?.mainField,
+            fieldGroups: toFieldGroups(configuration),
+            fields: sortFieldsByLayout(Object.entries(model.attributes)
                 .map(([attributeName, attribute]): Field => {
                     switch (attribute.type) {
-                        case 'float':
-                        case 'boolean':
                         case 'string':
+                        case 'text':
                         case 'richtext':
-                        case 'integer':
+                        case 'blocks':
+                        case 'email':
+                        case 'uid':
+                        case 'biginteger':
+                        case 'date':
+                        case 'time':
                         case 'datetime':
+                        case 'timestamp':
+                        case 'boolean':
                         case 'json':
-                        case 'text':
-                        case 'enumeration':
                             return {
                                 type: typeMapping[attribute.type],
                                 name: attributeName,
                                 required: !!attribute.required,
                                 default: attribute.default
                             };
-                        case 'relation':
-                            return ['oneToMany', 'manyToMany'].includes(attribute.relation)
+                        case 'password':
+                            // passwords are private attributes, never returned by the content API
+                            return {
+                                type: 'string',
+                                name: attributeName,
+                                hidden: true
+                            };
+                        case 'integer':
+                        case 'float':
+                        case 'decimal':
+                            return {
+                                type: 'number',
+                                name: attributeName,
+                                subtype: attribute.type === 'integer' ? 'int' : 'float',
+                                required: !!attribute.required,
+                                default: attribute.default
+                            };
+                        case 'enumeration':
+                            return {
+                                type: 'enum',
+                                name: attributeName,
+                                options: attribute.enum,
+                                required: !!attribute.required,
+                                default: attribute.default
+                            };
+                        case 'relation': {
+                            const referencedModels = attribute.target ? [toContentTypeModelName(attribute.target)] : contentTypeModelNames;
+                            return ['oneToMany', 'manyToMany', 'manyWay', 'morphToMany', 'morphMany'].includes(attribute.relation)
                                 ? {
                                     type: 'list',
                                     name: attributeName,
                                     items: {
                                         type: 'reference',
-                                        models: [attribute.target.split('.')[1].replace(/-/g, '_')]
+                                        models: referencedModels
                                     }
                                 }
                                 : {
                                     type: 'reference',
                                     name: attributeName,
-                                    models: [attribute.target.split('.')[1].replace(/-/g, '_')]
+                                    models: referencedModels
                                 };
+                        }
                         case 'component':
                             return attribute.repeatable
                                 ? {
@@ -103,19 +186,25 @@ export function toStackbitModels(models: (StrapiContentType | StrapiComponent)[]
                                     items: {
                                         type: 'model',
                                         // tslint:disable-next-line:no-non-null-assertion
-                                        models: [attribute.component!.replace(/^.*\./, '').replace(/-/g, '_')]
+                                        models: [toComponentModelName(attribute.component!)]
                                     }
                                 }
                                 : {
                                     type: 'model',
                                     name: attributeName,
                                     // tslint:disable-next-line:no-non-null-assertion
-                                    models: [attribute.component!.replace(/^.*\./, '').replace(/-/g, '_')]
+                                    models: [toComponentModelName(attribute.component!)]
                                 };
                         case 'media':
+                            return toMediaField(attributeName, attribute);
+                        case 'dynamiczone':
                             return {
-                                type: 'file',
+                                type: 'list',
                                 name: attributeName,
+                                items: {
+                                    type: 'model',
+                                    models: attribute.components.map(toComponentModelName)
+                                }
                             };
                         default:
                             console.log(`Unknown attribute type: ${(attribute as any).type}`);
@@ -123,42 +212,181 @@ export function toStackbitModels(models: (StrapiContentType | StrapiComponent)[]
                             return _exhaustiveCheck;
                     }
                 })
+                .map(field => withEditMetadata(field, configuration)), configuration)
         };
     });
 }
 
+/**
+ * Applies the content-manager edit view settings of a field. Stackbit has no placeholders, they are shown as
+ * description when there is none.
+ */
+function withEditMetadata(field: Field, configuration: StrapiConfiguration | undefined): Field {
+    const metadata = configuration?.metadatas?.[field.name]?.edit;
+    if (!metadata) {
+        return field;
+    }
+    return {
+        ...field,
+        label: metadata.label || field.label,
+        description: metadata.description || metadata.placeholder || field.description,
+        hidden: field.hidden || metadata.visible === false,
+        readOnly: metadata.editable === false || undefined,
+        group: configuration?.layouts?.editRelations?.length
+            ? (configuration.layouts.editRelations.includes(field.name) ? 'relations' : 'content')
+            : undefined
+    };
+}
+
+/**
+ * The Strapi admin shows the relations of a content type in a side panel, they are shown in their own tab.
+ */
+function toFieldGroups(configuration: StrapiConfiguration | undefined): { name: string; label: string }[] | undefined {
+    return configuration?.layouts?.editRelations?.length
+        ? [{name: 'content', label: 'Content'}, {name: 'relations', label: 'Relations'}]
+        : undefined;
+}
+
+/**
+ * Orders the fields as in the edit view, row by row, followed by the relations and the fields absent from the layout.
+ */
+function sortFieldsByLayout(fields: Field[], configuration: StrapiConfiguration | undefined): Field[] {
+    if (!configuration?.layouts) {
+        return fields;
+    }
+    const layoutOrder = [
+        ...(configuration.layouts.edit ?? []).flatMap(row => row.map(item => item.name)),
+        ...(configuration.layouts.editRelations ?? [])
+    ];
+    const position = (field: Field) => {
+        const index = layoutOrder.indexOf(field.name);
+        return index === -1 ? layoutOrder.length : index;
+    };
+    // Array.prototype.sort is stable: fields absent from the layout keep the attributes order
+    return [...fields].sort((a, b) => position(a) - position(b));
+}
+
+function toContentTypeModelName(contentTypeUid: string): string {
+    return contentTypeUid.split('.')[1].replace(/-/g, '_');
+}
+
+function toComponentModelName(componentUid: string): string {
+    return componentUid.replace(/^.*\./, '').replace(/-/g, '_');
+}
+
+/**
+ * Media restricted to images are handled as Stackbit images (asset references), other media (videos, documents...)
+ * as files referenced by their URL.
+ */
+function toMediaField(attributeName: string, attribute: Extract<AttributeModel, { type: 'media' }>): Field {
+    const imagesOnly = attribute.allowedTypes?.length === 1 && attribute.allowedTypes[0] === 'images';
+    if (attribute.multiple) {
+        return imagesOnly
+            ? {type: 'list', name: attributeName, items: {type: 'image'}}
+            : {type: 'list', name: attributeName, items: {type: 'file'}};
+    }
+    return {
+        type: imagesOnly ? 'image' : 'file',
+        name: attributeName,
+        required: !!attribute.required
+    };
+}
+
 export function toStackbitDocuments(
     documents: StrapiDocument[],
-    manageUrl: string
+    manageUrl: string,
+    strapiUrl: string
 ): Document<StrapiDocumentContext>[] {
     return documents.map((document): Document<StrapiDocumentContext> => {
         const modelName = document.type.replace(/-/g, '_');
         const model = stackbitCache.getModelByName(modelName) as Model<StrapiModelContext>;
         // console.log(`Found model ${JSON.stringify(model, null, 2)} for document ${JSON.stringify(document, null, 2)}`);
         // console.log(JSON.stringify(document, null, 2));
+        const context: FieldMappingContext = {strapiUrl, componentIds: {}, fileIds: {}};
+        const fields = toFields(document.attributes, model, context, []);
         return {
             type: 'document',
-            id: `${document.type.replace(/-/g, '_')}${ID_SEPARATOR}${document.id}`,
+            id: toStackbitDocumentId(document.type, document.id),
             modelName: modelName,
+            locale: document.attributes.locale,
             status: model.context?.draftAndPublish
-                ? document.attributes.publishedAt ? 'published' : 'added'
+                ? toDocumentStatus(document)
                 : 'published',
-            manageUrl: `${manageUrl}/collectionType/api::${document.type}.${document.type}/${document.id}`,
-            context: {},
+            manageUrl: toManageUrl(document, model, manageUrl),
+            context: {
+                componentIds: context.componentIds,
+                fileIds: context.fileIds
+            },
             createdAt: document.attributes.createdAt,
             updatedAt: document.attributes.updatedAt,
-            fields: toFields(document.attributes, model)
+            fields
         };
     });
 }
 
+/**
+ * The content manager URLs changed in Strapi v5, where documents have a documentId.
+ */
+function toManageUrl(document: StrapiDocument, model: Model<StrapiModelContext>, manageUrl: string): string {
+    const locale = document.attributes.locale ? `?plugins[i18n][locale]=${document.attributes.locale}` : '';
+    if (document.documentId) {
+        return model.context?.singleType
+            ? `${manageUrl}/single-types/${model.context.uid}${locale}`
+            : `${manageUrl}/collection-types/${model.context?.uid}/${document.documentId}${locale}`;
+    }
+    return model.context?.singleType
+        ? `${manageUrl}/singleType/${model.context.uid}${locale}`
+        : `${manageUrl}/collectionType/${model.context?.uid}/${document.id}${locale}`;
+}
+
+/**
+ * Strapi v5 drafts are loaded with the publication date of their published version: a draft updated after its
+ * publication has unpublished changes.
+ * Publishing sets both publishedAt and updatedAt, hence the tolerance.
+ */
+const PUBLICATION_TOLERANCE_MS = 1000;
+
+function toDocumentStatus(document: StrapiDocument): DocumentStatus {
+    const documentAttributes = document.attributes;
+    if (!documentAttributes.publishedAt) {
+        return 'added';
+    }
+    // Strapi v4 has no separate draft: the changes of a published entry are live
+    if (!document.documentId) {
+        return 'published';
+    }
+    const updatedAt = new Date(documentAttributes.updatedAt).getTime();
+    const publishedAt = new Date(documentAttributes.publishedAt).getTime();
+    return updatedAt - publishedAt > PUBLICATION_TOLERANCE_MS ? 'modified' : 'published';
+}
+
+export function toStackbitDocumentId(type: string, id: number | string): string {
+    return `${type.replace(/-/g, '_')}${ID_SEPARATOR}${id}`;
+}
+
+/**
+ * Strapi v4 ids are numbers, Strapi v5 ids are strings, see toV5DocumentId.
+ */
+export function toStrapiDocumentId(stackbitDocumentId: string): number | string {
+    const id = stackbitDocumentId.split(ID_SEPARATOR)[1];
+    return /^\d+$/.test(id) ? Number(id) : id;
+}
+
+interface FieldMappingContext {
+    strapiUrl: string;
+    /** filled with the ids of the components found while mapping the fields */
+    componentIds: Record<string, number>;
+    /** filled with the ids of the media of the file fields */
+    fileIds: Record<string, number>;
+}
+
 // tslint:disable-next-line:max-line-length
-function toFields(documentAttributes: StrapiDocumentFields, model: ObjectModel<StrapiModelContext> | DataModel<StrapiModelContext> | PageModel<StrapiModelContext> | ConfigModel<StrapiModelContext>): Record<string, DocumentField> {
+function toFields(documentAttributes: StrapiDocumentFields, model: ObjectModel<StrapiModelContext> | DataModel<StrapiModelContext> | PageModel<StrapiModelContext> | ConfigModel<StrapiModelContext>, context: FieldMappingContext, path: (string | number)[]): Record<string, DocumentField> {
     return Object.entries(documentAttributes)
         .filter(([_, value]) => value !== null)
         .reduce((attributes: Record<string, DocumentField>, [attributeName, attributeValue]) => {
             const modelField = model.fields?.find((field) => field.name === attributeName);
-            const documentField = toDocumentField(modelField, attributeValue);
+            const documentField = toDocumentField(modelField, attributeValue, context, [...path, attributeName]);
             if (documentField !== undefined) {
                 attributes[attributeName] = documentField;
             }
@@ -166,7 +394,7 @@ function toFields(documentAttributes: StrapiDocumentFields, model: ObjectModel<S
         }, {});
 }
 
-function toDocumentField(modelField: Field | undefined, attributeValue: any): DocumentField | undefined {
+function toDocumentField(modelField: Field | undefined, attributeValue: any, context: FieldMappingContext, path: (string | number)[]): DocumentField | undefined {
     if (!modelField) {
         return undefined;
     }
@@ -183,7 +411,6 @@ function toDocumentField(modelField: Field | undefined, attributeValue: any): Do
         case 'color':
         case 'number':
         case 'enum':
-        case 'file':
         case 'json':
         case 'style':
         case 'richText':
@@ -191,12 +418,21 @@ function toDocumentField(modelField: Field | undefined, attributeValue: any): Do
                 type: modelField.type,
                 value: attributeValue
             };
+        case 'file':
+            if (!attributeValue?.data) {
+                return undefined;
+            }
+            context.fileIds[path.join('.')] = attributeValue.data.id;
+            return {
+                type: 'file',
+                value: toAbsoluteUrl(attributeValue.data.attributes.url, context.strapiUrl)
+            };
         case 'image':
-            return attributeValue
+            return attributeValue?.data
                 ? {
                     type: 'reference',
                     refType: 'asset',
-                    refId: attributeValue
+                    refId: `${attributeValue.data.id}`
                 }
                 : undefined;
         case 'reference':
@@ -204,7 +440,7 @@ function toDocumentField(modelField: Field | undefined, attributeValue: any): Do
                 {
                     type: 'reference',
                     refType: 'document',
-                    refId: `${modelField.name}${ID_SEPARATOR}${attributeValue.data.id}`
+                    refId: toReferenceId(modelField, attributeValue.data)
                 }
                 : undefined;
         case 'list':
@@ -213,17 +449,18 @@ function toDocumentField(modelField: Field | undefined, attributeValue: any): Do
             return {
                 type: 'list',
                 localized: false,
-                items: toDocumentListFieldItems(modelField.items, attributeValue)
+                items: toDocumentListFieldItems(modelField.items, attributeValue, context, path)
             };
         case 'model':
             const modelName = modelField.models[0];
             const model = stackbitCache.getModelByName(modelName) as Model<StrapiModelContext>;
             // console.log(modelField, attributeValue, modelName, model);
+            context.componentIds[path.join('.')] = attributeValue.id;
             return {
                 type: 'model',
                 localized: false,
                 modelName: modelName,
-                fields: toFields(attributeValue, model)
+                fields: toFields(attributeValue, model, context, path)
             };
         case 'object':
         case 'cross-reference':
@@ -234,16 +471,28 @@ function toDocumentField(modelField: Field | undefined, attributeValue: any): Do
     }
 }
 
+/**
+ * Builds the id of the referenced document from the relation target, or from the `__type` of the related entry for
+ * polymorphic relations.
+ */
+function toReferenceId(referenceField: { models: string[] }, relatedEntry: { id: number; __type?: string; attributes?: { __type?: string } }): string {
+    const morphType = relatedEntry.__type ?? relatedEntry.attributes?.__type;
+    const modelName = morphType ? toContentTypeModelName(morphType) : referenceField.models[0];
+    return `${modelName}${ID_SEPARATOR}${relatedEntry.id}`;
+}
+
 function toDocumentListFieldItems(fieldSpecificProps: FieldSpecificProps, attributeValue: any[] | {
-    data: any[]
-}): DocumentListFieldItems[] {
+    data: any[] | null
+}, context: FieldMappingContext, path: (string | number)[]): DocumentListFieldItems[] {
     switch (fieldSpecificProps.type) {
         case 'model':
             // console.log('toDocumentListFieldItems', v, model);
-            return (attributeValue as any[]).map(v => {
-                const modelName = fieldSpecificProps.models[0];
+            return (attributeValue as any[]).map((v, index) => {
+                // dynamic zones items tell which component they are
+                const modelName = v.__component ? toComponentModelName(v.__component) : fieldSpecificProps.models[0];
+                context.componentIds[[...path, index].join('.')] = v.id;
                 // tslint:disable-next-line:no-non-null-assertion
-                const fields = toFields(v, stackbitCache.getModelByName(modelName)!);
+                const fields = toFields(v, stackbitCache.getModelByName(modelName)!, context, [...path, index]);
                 // console.log(fields);
                 return ({
                     type: 'model',
@@ -254,15 +503,24 @@ function toDocumentListFieldItems(fieldSpecificProps: FieldSpecificProps, attrib
             });
         case 'reference':
             // console.log('reference', stackbitCache.getModelByName(fieldSpecificProps.models[0]).name, v.id);
-            return ((attributeValue as { data: any[] }).data).map(v => {
-                // tslint:disable-next-line:no-non-null-assertion
-                const refId = `${stackbitCache.getModelByName(fieldSpecificProps.models[0])!.name}${ID_SEPARATOR}${v.id}`;
-                // console.log(refId);
-                return ({
-                    type: 'reference',
-                    refType: 'document',
-                    refId: refId
-                });
+            return ((attributeValue as { data: any[] | null }).data ?? []).map(v => ({
+                type: 'reference',
+                refType: 'document',
+                refId: toReferenceId(fieldSpecificProps, v)
+            }));
+        case 'image':
+            return ((attributeValue as { data: any[] | null }).data ?? []).map(v => ({
+                type: 'reference',
+                refType: 'asset',
+                refId: `${v.id}`
+            }));
+        case 'file':
+            return ((attributeValue as { data: any[] | null }).data ?? []).map((v, index) => {
+                context.fileIds[[...path, index].join('.')] = v.id;
+                return {
+                    type: 'file',
+                    value: toAbsoluteUrl(v.attributes.url, context.strapiUrl)
+                };
             });
         case 'string':
         case 'url':
@@ -277,9 +535,7 @@ function toDocumentListFieldItems(fieldSpecificProps: FieldSpecificProps, attrib
         case 'color':
         case 'json':
         case 'richText':
-        case 'file':
         case 'enum':
-        case 'image':
         case 'object':
         case 'cross-reference':
         case 'style':
@@ -292,27 +548,34 @@ function toDocumentListFieldItems(fieldSpecificProps: FieldSpecificProps, attrib
     }
 }
 
-export function toStackbitAssets(assets: ExampleAsset[], manageUrl: string, siteLocalhost: string): Asset<StrapiAssetContext>[] {
+export function toStackbitAssets(assets: StrapiAsset[], strapiUrl: string): Asset<StrapiAssetContext>[] {
     return assets.map((asset): Asset<StrapiAssetContext> => {
         return {
             type: 'asset',
-            id: asset.id,
+            id: `${asset.id}`,
             createdAt: asset.createdAt,
             updatedAt: asset.updatedAt,
             status: 'published',
-            manageUrl: manageUrl + '/assets/' + asset.id,
-            context: {},
+            manageUrl: `${strapiUrl}/admin/plugins/upload`,
+            context: {
+                alternativeText: asset.alternativeText,
+                caption: asset.caption,
+                formats: toAbsoluteFormats(asset.formats, strapiUrl)
+            },
             fields: {
                 title: {
                     type: 'string',
-                    value: asset.title
+                    value: asset.alternativeText || asset.caption || asset.name
                 },
                 file: {
                     type: 'assetFile',
-                    url: siteLocalhost + asset.url,
+                    url: toAbsoluteUrl(asset.url, strapiUrl),
+                    fileName: asset.name,
+                    contentType: asset.mime,
+                    size: Math.round(asset.size * 1024),
                     dimensions: {
-                        width: asset.width,
-                        height: asset.height
+                        width: asset.width ?? undefined,
+                        height: asset.height ?? undefined
                     }
                 }
             }
@@ -320,7 +583,158 @@ export function toStackbitAssets(assets: ExampleAsset[], manageUrl: string, site
     });
 }
 
-export function stackbitUpdatedFieldToExampleFields(updateOperationFields: Record<string, UpdateOperationField>): Record<string, any> {
+function toAbsoluteFormats(formats: Record<string, StrapiAssetFormat> | null, strapiUrl: string): Record<string, StrapiAssetFormat> | null {
+    if (!formats) {
+        return null;
+    }
+    return Object.entries(formats).reduce((absoluteFormats: Record<string, StrapiAssetFormat>, [formatName, format]) => {
+        absoluteFormats[formatName] = {...format, url: toAbsoluteUrl(format.url, strapiUrl)};
+        return absoluteFormats;
+    }, {});
+}
+
+/**
+ * Local upload provider returns URLs relative to the Strapi server whereas cloud providers (S3, Cloudinary...)
+ * return absolute URLs.
+ */
+function toAbsoluteUrl(url: string, strapiUrl: string): string {
+    return /^https?:\/\//.test(url) ? url : strapiUrl + url;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Checks the documents against the constraints of their Strapi attributes, the way Strapi validates entries on publish.
+ * Unique attributes are checked against the other documents of the same model and locale in the cache.
+ */
+export function validateStackbitDocuments(documents: Document<StrapiDocumentContext>[], models: (StrapiContentType | StrapiComponent)[]): ValidationError[] {
+    return documents.flatMap(document => {
+        const model = models.find(m => m.uid === stackbitCache.getModelByName(document.modelName)?.context?.uid);
+        if (!model) {
+            return [];
+        }
+        return validateFields(document.fields, model.attributes, models, [])
+            .map(({message, fieldPath}): ValidationError => ({
+                message,
+                objectType: 'document',
+                objectId: document.id,
+                fieldPath
+            }))
+            .concat(validateUniqueFields(document, model.attributes));
+    });
+}
+
+function validateFields(
+    fields: Record<string, DocumentField>,
+    attributes: { [key: string]: AttributeModel },
+    models: (StrapiContentType | StrapiComponent)[],
+    path: (string | number)[]
+): { message: string; fieldPath: (string | number)[] }[] {
+    return Object.entries(attributes).flatMap(([attributeName, attribute]) => {
+        // passwords are never returned by the content API, there is nothing to validate
+        if (attribute.type === 'password') {
+            return [];
+        }
+        const fieldPath = [...path, attributeName];
+        // fields are never localized, see toStackbitModels
+        const field = fields[attributeName]?.localized ? undefined : fields[attributeName] as DocumentFieldNonLocalized | undefined;
+        const errors = validateAttribute(field, attribute).map(message => ({message, fieldPath}));
+        if (field?.type === 'model') {
+            errors.push(...validateComponent(field, models, fieldPath));
+        } else if (field?.type === 'list') {
+            field.items.forEach((item, index) => {
+                if (item.type === 'model') {
+                    errors.push(...validateComponent(item, models, [...fieldPath, index]));
+                }
+            });
+        }
+        return errors;
+    });
+}
+
+function validateComponent(
+    field: { modelName: string; fields: Record<string, DocumentField> },
+    models: (StrapiContentType | StrapiComponent)[],
+    path: (string | number)[]
+): { message: string; fieldPath: (string | number)[] }[] {
+    const component = models.find(m => m.uid === stackbitCache.getModelByName(field.modelName)?.context?.uid);
+    return component ? validateFields(field.fields, component.attributes, models, path) : [];
+}
+
+function validateAttribute(field: DocumentFieldNonLocalized | undefined, attribute: AttributeModel): string[] {
+    const value = field && 'value' in field ? field.value : undefined;
+    const items = field?.type === 'list' ? field.items : undefined;
+    const isEmpty = field === undefined
+        || (items !== undefined && items.length === 0)
+        || (field.type !== 'list' && field.type !== 'model' && field.type !== 'reference' && (value === undefined || value === null || value === ''));
+    if (isEmpty) {
+        return 'required' in attribute && attribute.required ? ['This field is required'] : [];
+    }
+    switch (attribute.type) {
+        case 'string':
+        case 'text':
+        case 'richtext':
+        case 'email':
+        case 'password':
+        case 'uid':
+            return [
+                ...(attribute.minLength !== undefined && String(value).length < attribute.minLength ? [`Must be at least ${attribute.minLength} characters long`] : []),
+                ...(attribute.maxLength !== undefined && String(value).length > attribute.maxLength ? [`Must be at most ${attribute.maxLength} characters long`] : []),
+                ...(attribute.regex && !new RegExp(attribute.regex).test(String(value)) ? [`Must match the pattern ${attribute.regex}`] : []),
+                ...(attribute.type === 'email' && !EMAIL_REGEX.test(String(value)) ? ['Must be a valid email address'] : [])
+            ];
+        case 'integer':
+        case 'biginteger':
+        case 'float':
+        case 'decimal':
+            return [
+                ...(attribute.min !== undefined && Number(value) < Number(attribute.min) ? [`Must be greater than or equal to ${attribute.min}`] : []),
+                ...(attribute.max !== undefined && Number(value) > Number(attribute.max) ? [`Must be less than or equal to ${attribute.max}`] : [])
+            ];
+        case 'enumeration':
+            return attribute.enum.includes(value as string) ? [] : [`Must be one of ${attribute.enum.join(', ')}`];
+        case 'component':
+        case 'dynamiczone':
+            return items ? validateItemCount(items.length, attribute.min, attribute.max) : [];
+        default:
+            return [];
+    }
+}
+
+function validateItemCount(count: number, min: number | undefined, max: number | undefined): string[] {
+    return [
+        ...(min !== undefined && count < min ? [`Must contain at least ${min} items`] : []),
+        ...(max !== undefined && count > max ? [`Must contain at most ${max} items`] : [])
+    ];
+}
+
+function validateUniqueFields(document: Document<StrapiDocumentContext>, attributes: { [key: string]: AttributeModel }): ValidationError[] {
+    return Object.entries(attributes)
+        .filter(([attributeName, attribute]) => 'unique' in attribute && attribute.unique && document.fields[attributeName])
+        .flatMap(([attributeName]): ValidationError[] => {
+            const value = (document.fields[attributeName] as { value?: unknown }).value;
+            if (value === undefined || value === null || value === '') {
+                return [];
+            }
+            const duplicate = stackbitCache.getDocuments().find(other =>
+                other.id !== document.id
+                && other.modelName === document.modelName
+                && other.locale === document.locale
+                && (other.fields[attributeName] as { value?: unknown } | undefined)?.value === value
+            );
+            return duplicate
+                ? [{
+                    message: `This value is already used by ${duplicate.id}`,
+                    objectType: 'document',
+                    objectId: document.id,
+                    fieldPath: [attributeName],
+                    isUniqueValidation: true
+                }]
+                : [];
+        });
+}
+
+export function stackbitUpdateOperationFieldsToStrapiFields(updateOperationFields: Record<string, UpdateOperationField>): Record<string, any> {
     const fields: Record<string, any> = {};
     for (const [fieldName, updateOperationField] of Object.entries(updateOperationFields)) {
         fields[fieldName] = convertUpdateOperationFieldToStrapiDocumentField(updateOperationField);
@@ -328,53 +742,64 @@ export function stackbitUpdatedFieldToExampleFields(updateOperationFields: Recor
     return fields;
 }
 
-export function stackbitUpdatesToStrapiFields(updateOperations: UpdateOperation[]): Record<string, any> {
+export function stackbitUpdatesToStrapiFields(updateOperations: UpdateOperation[], document: Document<StrapiDocumentContext>): Record<string, any> {
     const fields: Record<string, any> = {};
+    // ids of the relations of each many relation, as updated by the previous operations
+    const relationIds = new Map<string | number, (number | string)[]>();
     for (const operation of updateOperations) {
-        if (operation.opType === 'set') {
-            const {field, fieldPath} = operation;
-            fields[fieldPath[0]] = convertUpdateOperationFieldToStrapiDocumentField(field);
-        } else if (operation.opType === 'unset') {
-            const {fieldPath, modelField} = operation;
-            switch (modelField.type) {
-                case 'string':
-                case 'url':
-                case 'slug':
-                case 'text':
-                case 'markdown':
-                case 'html':
-                case 'boolean':
-                case 'date':
-                case 'datetime':
-                case 'color':
-                case 'number':
-                case 'enum':
-                case 'file':
-                case 'json':
-                case 'style':
-                case 'richText':
-                case 'image':
-                case 'reference':
-                    fields[fieldPath[0]] = undefined;
-                    break;
-                case 'object':
-                case 'model':
-                case 'cross-reference':
-                case 'list':
-                    throw new Error(`updating field of type ${modelField.type} not implemented`);
-                default:
-                    const _exhaustiveCheck: never = modelField;
-                    return _exhaustiveCheck;
-            }
+        const [attributeName, ...subPath] = operation.fieldPath;
+        if (subPath.length === 0 && operation.opType === 'set') {
+            fields[attributeName] = convertUpdateOperationFieldToStrapiDocumentField(operation.field, isMorphRelation(operation.modelField));
+        } else if (subPath.length === 0 && operation.opType === 'unset') {
+            fields[attributeName] = toUnsetValue(operation.modelField, true);
+        } else if (subPath.length === 0 && operation.opType !== 'set' && operation.opType !== 'unset'
+            && operation.modelField.type === 'list' && operation.modelField.items.type === 'reference' && !isMorphRelation(operation.modelField)) {
+            const currentIds = relationIds.get(attributeName) ?? toStrapiFieldValue(document.fields[attributeName], [], {componentIds: {}, fileIds: {}}, false) ?? [];
+            relationIds.set(attributeName, currentIds);
+            fields[attributeName] = toRelationListUpdate(operation, currentIds, fields[attributeName]);
         } else {
-            throw new Error(`'${operation.opType}' operation not implemented`);
+            // nested updates and lists of components, media or values: the whole attribute is rebuilt from the current
+            // document with its component and media ids, so that Strapi updates the existing components in place
+            const morph = subPath.length === 0 && isMorphRelation(operation.modelField);
+            const attributeValue = fields[attributeName] ?? toStrapiFieldValue(document.fields[attributeName], [attributeName], document.context, morph);
+            fields[attributeName] = applyOperation(attributeValue, subPath, operation, morph);
         }
     }
     return fields;
 }
 
-function convertUpdateOperationFieldToStrapiDocumentField(updateOperationField: UpdateOperationField) {
-    switch (updateOperationField.type) {
+/**
+ * Applies the operation at the given path inside a Strapi value (component, list...).
+ */
+function applyOperation(value: any, path: (string | number)[], operation: UpdateOperation, morph: boolean): any {
+    if (path.length === 0) {
+        switch (operation.opType) {
+            case 'set':
+                return convertUpdateOperationFieldToStrapiDocumentField(operation.field, morph);
+            case 'unset':
+                return toUnsetValue(operation.modelField, false);
+            case 'insert':
+            case 'remove':
+            case 'reorder':
+                return applyListOperation(value ?? [], operation, morph);
+        }
+    }
+    const [key, ...subPath] = path;
+    const container = value ?? (typeof key === 'number' ? [] : {});
+    container[key] = applyOperation(container[key], subPath, operation, morph);
+    return container;
+}
+
+/**
+ * Only polymorphic relations reference several models.
+ */
+function isMorphRelation(modelField: Field | FieldListItems): boolean {
+    const referenceField = modelField.type === 'list' ? modelField.items : modelField;
+    return referenceField.type === 'reference' && referenceField.models.length > 1;
+}
+
+function toUnsetValue(modelField: Field | FieldListItems, topLevel: boolean): any {
+    switch (modelField.type) {
         case 'string':
         case 'url':
         case 'slug':
@@ -391,17 +816,203 @@ function convertUpdateOperationFieldToStrapiDocumentField(updateOperationField:
         case 'json':
         case 'style':
         case 'richText':
-            return updateOperationField.value;
-        case 'reference':
-            return updateOperationField.refId;
         case 'image':
+        case 'reference':
+        case 'model':
+            // undefined values would be dropped from the JSON payload
+            return null;
+        case 'list':
+            return topLevel && modelField.items.type === 'reference' ? {set: []} : [];
         case 'object':
+        case 'cross-reference':
+            throw new Error(`updating field of type ${modelField.type} not implemented`);
+        default:
+            const _exhaustiveCheck: never = modelField;
+            return _exhaustiveCheck;
+    }
+}
+
+function applyListOperation(items: any[], operation: UpdateOperationInsert | UpdateOperationRemove | UpdateOperationReorder, morph: boolean): any[] {
+    switch (operation.opType) {
+        case 'insert': {
+            const insertedItems = [...items];
+            insertedItems.splice(operation.index ?? items.length, 0, convertUpdateOperationFieldToStrapiDocumentField(operation.item, morph));
+            return insertedItems;
+        }
+        case 'remove':
+            return items.filter((_, index) => index !== operation.index);
+        case 'reorder':
+            // order[newIndex] === previousIndex
+            return operation.order.map(previousIndex => items[previousIndex]);
+    }
+}
+
+/**
+ * Many relations are updated with Strapi connect/disconnect syntax so that only the changed relations are sent,
+ * instead of replacing the whole list.
+ * `currentIds` are the ids of the relations before the operation, they are updated so that the next operations on the
+ * same relation see its new order.
+ */
+function toRelationListUpdate(
+    operation: UpdateOperationInsert | UpdateOperationRemove | UpdateOperationReorder,
+    currentIds: (number | string)[],
+    relationUpdate: { connect: any[]; disconnect: any[] } = {connect: [], disconnect: []}
+): { connect: any[]; disconnect: any[] } {
+    switch (operation.opType) {
+        case 'insert': {
+            const id = convertUpdateOperationFieldToStrapiDocumentField(operation.item);
+            const index = operation.index ?? currentIds.length;
+            relationUpdate.connect.push({
+                id,
+                position: index < currentIds.length ? {before: currentIds[index]} : {end: true}
+            });
+            currentIds.splice(index, 0, id);
+            break;
+        }
+        case 'remove': {
+            const [id] = currentIds.splice(operation.index, 1);
+            relationUpdate.connect = relationUpdate.connect.filter(item => item.id !== id);
+            relationUpdate.disconnect.push({id});
+            break;
+        }
+        case 'reorder': {
+            // connecting an existing relation moves it: connect every relation at the end, in the new order
+            const reorderedIds = operation.order.map(previousIndex => currentIds[previousIndex]);
+            relationUpdate.connect = relationUpdate.connect.filter(item => !reorderedIds.includes(item.id));
+            relationUpdate.connect.push(...reorderedIds.map(id => ({id, position: {end: true}})));
+            currentIds.splice(0, currentIds.length, ...reorderedIds);
+            break;
+        }
+    }
+    return relationUpdate;
+}
+
+/**
+ * Converts a field of a Stackbit document back to its Strapi value, with the ids of the existing components and media.
+ */
+function toStrapiFieldValue(documentField: DocumentField | undefined, path: (string | number)[], context: StrapiDocumentContext, morph: boolean): any {
+    if (!documentField) {
+        return undefined;
+    }
+    if (documentField.localized) {
+        throw new Error(`updating localized field of type ${documentField.type} not implemented`);
+    }
+    switch (documentField.type) {
+        case 'string':
+        case 'url':
+        case 'slug':
+        case 'text':
+        case 'markdown':
+        case 'html':
+        case 'boolean':
+        case 'date':
+        case 'datetime':
+        case 'color':
+        case 'number':
+        case 'enum':
+        case 'json':
+        case 'style':
+        case 'richText':
+            return documentField.value;
+        case 'file':
+            return documentField.value ? context.fileIds[path.join('.')] ?? toStrapiAssetId(documentField.value) : null;
+        case 'reference':
+            return documentField.refType === 'asset'
+                ? Number(documentField.refId)
+                : toStrapiRelation(documentField.refId, morph);
+        case 'list':
+            return documentField.items.map((item, index) => toStrapiFieldValue(item, [...path, index], context, morph));
         case 'model':
+        case 'object': {
+            const componentId = context.componentIds[path.join('.')];
+            return Object.entries(documentField.fields).reduce((fields: Record<string, any>, [fieldName, field]) => {
+                fields[fieldName] = toStrapiFieldValue(field, [...path, fieldName], context, false);
+                return fields;
+            }, {
+                ...(componentId ? {id: componentId} : {}),
+                ...(documentField.type === 'model' ? {__component: toStrapiUid(documentField.modelName)} : {})
+            });
+        }
+        case 'image':
         case 'cross-reference':
+            throw new Error(`updating field of type ${documentField.type} not implemented`);
+        default:
+            const _exhaustiveCheck: never = documentField;
+            return _exhaustiveCheck;
+    }
+}
+
+function convertUpdateOperationFieldToStrapiDocumentField(updateOperationField: UpdateOperationField, morph = false): any {
+    switch (updateOperationField.type) {
+        case 'string':
+        case 'url':
+        case 'slug':
+        case 'text':
+        case 'markdown':
+        case 'html':
+        case 'boolean':
+        case 'color':
+        case 'enum':
+        case 'json':
+        case 'style':
+        case 'richText':
+            return updateOperationField.value;
+        case 'number':
+        case 'date':
+        case 'datetime':
+            // Strapi rejects empty strings for numbers and dates
+            return updateOperationField.value === '' ? null : updateOperationField.value;
+        case 'file':
+            return updateOperationField.value ? toStrapiAssetId(updateOperationField.value) : null;
+        case 'reference':
+            return updateOperationField.refType === 'asset'
+                ? Number(updateOperationField.refId)
+                : toStrapiRelation(updateOperationField.refId, morph);
         case 'list':
+            return updateOperationField.items.map(item => convertUpdateOperationFieldToStrapiDocumentField(item, morph));
+        case 'model':
+            return {
+                __component: toStrapiUid(updateOperationField.modelName),
+                ...stackbitUpdateOperationFieldsToStrapiFields(updateOperationField.fields)
+            };
+        case 'object':
+            return stackbitUpdateOperationFieldsToStrapiFields(updateOperationField.fields);
+        case 'image':
+        case 'cross-reference':
             throw new Error(`updating field of type ${updateOperationField.type} not implemented`);
         default:
             const _exhaustiveCheck: never = updateOperationField;
             return _exhaustiveCheck;
     }
 }
+
+/**
+ * Stackbit file fields hold the URL of the file: find back the matching Strapi media id.
+ */
+function toStrapiAssetId(url: string): number {
+    const asset = stackbitCache.getAssets().find(asset => 'url' in asset.fields.file && asset.fields.file.url === url);
+    if (!asset) {
+        throw new Error(`no asset found with url ${url}`);
+    }
+    return Number(asset.id);
+}
+
+/**
+ * Polymorphic relations are written with the uid of the related content type.
+ */
+function toStrapiRelation(stackbitDocumentId: string, morph: boolean): number | string | { __type: string; id: number | string } {
+    const id = toStrapiDocumentId(stackbitDocumentId);
+    return morph ? {__type: toStrapiUid(stackbitDocumentId.split(ID_SEPARATOR)[0]), id} : id;
+}
+
+/**
+ * Content type or component uid of a model.
+ * Dynamic zones items need their component uid, it is ignored by Strapi for regular components.
+ */
+function toStrapiUid(modelName: string): string {
+    const model = stackbitCache.getModelByName(modelName);
+    if (!model?.context) {
+        throw new Error(`no Strapi content type or component found for model ${modelName}`);
+    }
+    return model.context.uid;
+}
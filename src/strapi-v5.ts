@@ -0,0 +1,174 @@
+import type {AttributeModel, StrapiComponent, StrapiDocument, StrapiDocumentFields} from './strapi-api-client';
+
+/**
+ * Major version of the Strapi server.
+ */
+export type StrapiVersion = 4 | 5;
+
+const LOCALE_SEPARATOR = ':';
+
+/**
+ * Strapi v5 documents are identified by their documentId, which is shared by all their locales: the ids of
+ * localized documents carry their locale, e.g. `tf4w2yq4hpe5v1olx3v0c1x9:fr`.
+ */
+export function toV5DocumentId(documentId: string, locale?: string | null): string {
+    return locale ? `${documentId}${LOCALE_SEPARATOR}${locale}` : documentId;
+}
+
+export function fromV5DocumentId(id: number | string): { documentId: string; locale?: string } {
+    const [documentId, locale] = String(id).split(LOCALE_SEPARATOR);
+    return {documentId, locale};
+}
+
+/**
+ * Query string parameter selecting the locale of a v5 document, if any.
+ * @param id
+ * @param separator `?` when it is the first parameter of the query string
+ */
+export function toV5LocaleQuery(id: number | string, separator: '?' | '&' = '&'): string {
+    const {locale} = fromV5DocumentId(id);
+    return locale ? `${separator}locale=${locale}` : '';
+}
+
+/**
+ * Converts a Strapi v5 entry to the Strapi v4 response shape used by the mappers: attributes wrapped in `attributes`
+ * and relations and media wrapped in `{data: ...}`.
+ */
+export function fromV5Document(
+    entry: Record<string, any>,
+    type: string,
+    attributes: { [key: string]: AttributeModel },
+    components: Map<string, StrapiComponent>
+): StrapiDocument {
+    const {id, documentId, ...fields} = entry;
+    return {
+        id: toV5DocumentId(documentId, fields.locale),
+        documentId,
+        type,
+        attributes: fromV5Attributes(fields, attributes, components)
+    };
+}
+
+function fromV5Attributes(
+    fields: Record<string, any>,
+    attributes: { [key: string]: AttributeModel },
+    components: Map<string, StrapiComponent>
+): StrapiDocumentFields {
+    const v4Fields: StrapiDocumentFields = {};
+    for (const [name, value] of Object.entries(fields)) {
+        const attribute = attributes[name];
+        switch (attribute?.type) {
+            case 'relation':
+                v4Fields[name] = {data: Array.isArray(value) ? value.map(fromV5RelatedEntry) : value ? fromV5RelatedEntry(value) : null};
+                break;
+            case 'media':
+                v4Fields[name] = {data: Array.isArray(value) ? value.map(fromV5File) : value ? fromV5File(value) : null};
+                break;
+            case 'component':
+                v4Fields[name] = Array.isArray(value)
+                    // tslint:disable-next-line:no-non-null-assertion
+                    ? value.map(item => fromV5Component(item, attribute.component!, components))
+                    // tslint:disable-next-line:no-non-null-assertion
+                    : value && fromV5Component(value, attribute.component!, components);
+                break;
+            case 'dynamiczone':
+                v4Fields[name] = (value ?? []).map((item: Record<string, any>) => fromV5Component(item, item.__component, components));
+                break;
+            default:
+                v4Fields[name] = value;
+        }
+    }
+    return v4Fields;
+}
+
+/**
+ * Components keep their numeric id in Strapi v5.
+ */
+function fromV5Component(value: Record<string, any>, componentUid: string, components: Map<string, StrapiComponent>): Record<string, any> {
+    const component = components.get(componentUid);
+    return component ? fromV5Attributes(value, component.attributes, components) : value;
+}
+
+function fromV5RelatedEntry(entry: Record<string, any>): { id: string; __type?: string; attributes: StrapiDocumentFields } {
+    return {
+        id: toV5DocumentId(entry.documentId, entry.locale),
+        ...(entry.__type ? {__type: entry.__type} : {}),
+        attributes: {}
+    };
+}
+
+function fromV5File({id, ...file}: Record<string, any>): { id: number; attributes: Record<string, any> } {
+    return {id, attributes: file};
+}
+
+/**
+ * Converts the fields sent to the content API to Strapi v5: related documents are identified by their documentId and
+ * locale instead of their id.
+ */
+export function toV5Fields(
+    fields: Record<string, any>,
+    attributes: { [key: string]: AttributeModel },
+    components: Map<string, StrapiComponent>
+): Record<string, any> {
+    return Object.entries(fields).reduce((v5Fields: Record<string, any>, [name, value]) => {
+        v5Fields[name] = toV5Value(value, attributes[name], components);
+        return v5Fields;
+    }, {});
+}
+
+function toV5Value(value: any, attribute: AttributeModel | undefined, components: Map<string, StrapiComponent>): any {
+    if (value === null || value === undefined) {
+        return value;
+    }
+    switch (attribute?.type) {
+        case 'relation':
+            if (Array.isArray(value)) {
+                return {set: value.map(toV5Relation)};
+            }
+            if (value.connect || value.disconnect) {
+                return {
+                    connect: (value.connect ?? []).map((item: { id: number | string; position?: { before?: number | string; end?: boolean } }) => ({
+                        ...toV5Relation(item.id),
+                        ...(item.position ? {position: toV5Position(item.position)} : {})
+                    })),
+                    disconnect: (value.disconnect ?? []).map((item: { id: number | string }) => toV5Relation(item.id))
+                };
+            }
+            if (Array.isArray(value.set)) {
+                return {set: value.set.map(toV5Relation)};
+            }
+            return {set: [toV5Relation(value)]};
+        case 'component':
+            return Array.isArray(value)
+                ? value.map(item => toV5Component(item, attribute.component ?? '', components))
+                : toV5Component(value, attribute.component ?? '', components);
+        case 'dynamiczone':
+            return value.map((item: Record<string, any>) => toV5Component(item, item.__component, components));
+        default:
+            return value;
+    }
+}
+
+function toV5Component(value: Record<string, any>, componentUid: string, components: Map<string, StrapiComponent>): Record<string, any> {
+    const component = components.get(componentUid);
+    return component ? toV5Fields(value, component.attributes, components) : value;
+}
+
+/**
+ * Polymorphic relations are sent with the uid of the related content type.
+ */
+function toV5Relation(relation: number | string | { __type: string; id: number | string }): Record<string, string> {
+    if (typeof relation === 'object') {
+        return {__type: relation.__type, ...toV5Relation(relation.id)};
+    }
+    const {documentId, locale} = fromV5DocumentId(relation);
+    return locale ? {documentId, locale} : {documentId};
+}
+
+function toV5Position(position: { before?: number | string; end?: boolean }): { before: string; locale?: string } | { end?: boolean } {
+    if (position.before === undefined) {
+        return position;
+    }
+    const {documentId, locale} = fromV5DocumentId(position.before);
+    return locale ? {before: documentId, locale} : {before: documentId};
+}